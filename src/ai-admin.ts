@@ -4,6 +4,9 @@
  */
 
 import { aiConfig } from "./ai-config";
+import { isLocalMedia } from "./media-store";
+import { fileToDataUrl } from "./pdf-utils";
+import type { TelegramMessage } from "./types";
 
 const MISTRAL_API_KEY = process.env.MISTRAL_API_KEY || "";
 
@@ -12,6 +15,7 @@ export interface AdminDecision {
     reason: string;
     transformedText: string;
     suggestedFilename?: string; // AI-suggested filename for PDFs with gibberish names
+    category?: string;          // One of aiConfig.categories (for routing rules)
 }
 
 // Alias for batch processing
@@ -77,6 +81,54 @@ function isGibberishFilename(filename: string): boolean {
     return hasOnlyNumbers || hasLongNumbers || hasMostlyNumbers;
 }
 
+/**
+ * Describe forwards, replies, polls, link previews etc. for the AI
+ */
+export function describeExtras(message: Partial<TelegramMessage>): string {
+    const lines: string[] = [];
+
+    if (message.forwardedFrom) {
+        const { name, username } = message.forwardedFrom;
+        lines.push(`FORWARDED FROM: ${name}${username ? ` (@${username})` : ""}`);
+    }
+    if (message.replyToId) {
+        lines.push(`REPLY TO: message #${message.replyToId} (may lack context on its own)`);
+    }
+    if (message.poll) {
+        lines.push(`NATIVE ${message.poll.quiz ? "QUIZ" : "POLL"}: ${message.poll.question}\nOPTIONS: ${message.poll.options.join(" | ")}`);
+    }
+    if (message.linkPreview) {
+        const lp = message.linkPreview;
+        lines.push(`LINK PREVIEW: ${[lp.siteName, lp.title, lp.description].filter(Boolean).join(" - ")} (${lp.url})`);
+    }
+    if (message.audio?.length) {
+        const voice = message.audio.filter((a) => a.voice).length;
+        lines.push(`AUDIO: ${voice} voice note(s), ${message.audio.length - voice} audio file(s)`);
+    }
+    if (message.sticker) {
+        lines.push(`STICKER: ${message.sticker.emoji || "(no emoji)"}`);
+    }
+    if (message.views) {
+        lines.push(`VIEWS: ${message.views}`);
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * Extra prompt rules for a group's prompt variant
+ */
+function variantRules(variant?: string): string {
+    if (!variant) return "";
+
+    const rules = aiConfig.promptVariants[variant];
+    if (!rules) {
+        console.warn(`[AI Admin] Unknown prompt variant "${variant}" - using the default prompt`);
+        return "";
+    }
+    return `\n\nEXTRA RULES FOR THIS SOURCE:\n${rules}`;
+}
+
 /**
  * The main AI admin function - evaluates AND transforms content
  */
@@ -84,7 +136,9 @@ export async function evaluateContent(
     text: string,
     imageUrls: string[] = [],
     sourceChannel: string,
-    documents: { url: string; title: string; size?: string }[] = []
+    documents: { url: string; title: string; size?: string }[] = [],
+    extras: string = "",
+    promptVariant?: string
 ): Promise<AdminDecision> {
     if (!MISTRAL_API_KEY) {
         console.warn("[AI Admin] No API key - passing through original");
@@ -128,6 +182,11 @@ STYLE RULES (VERY IMPORTANT):
 7. NO hashtags unless truly necessary
 8. Just state the facts directly
 
+FORMATTING:
+- Original content is Telegram HTML
+- In transformedText use ONLY <b>, <i>, <u>, <s>, <code>, <a href="..."> - no markdown
+- Keep bold/italic where it highlights key info (dates, vacancies, results)
+
 GOOD EXAMPLE:
 "RPSC ka जलवा बरकरार 
 
@@ -146,6 +205,8 @@ WHAT TO DO:
 - SKIP image-only posts that are just screenshots/photos of notes, handwritten text, or small portions of printed material
 - Remove source channel branding (@mentions, join links)
 - Keep original information, just clean it up
+- NATIVE POLL posts are recreated as real polls - only decide shouldPost, text is not used
+- SKIP sticker-only posts and replies that make no sense without the message they reply to
 - Use hindi/english both 
 - Give as much info possible in the caption
 ${needsRename ? `
@@ -155,8 +216,10 @@ PDF FILENAME:
 - Example: "RPSC_APO_Result_2024.pdf" instead of "5_6185745408757605272.pdf"
 - Add "suggestedFilename" to your response` : ""}
 
+CATEGORY: pick the one that fits best: ${aiConfig.categories.join(", ")}
+
 RESPOND JSON:
-{"shouldPost": true/false, "reason": "short reason", "transformedText": "your short version"${needsRename ? ', "suggestedFilename": "Better_Name.pdf"' : ""}}`;
+{"shouldPost": true/false, "reason": "short reason", "transformedText": "your short version", "category": "..."${needsRename ? ', "suggestedFilename": "Better_Name.pdf"' : ""}}${variantRules(promptVariant)}`;
 
 
     const userContent: Array<{ type: string; text?: string; image_url?: { url: string } }> = [];
@@ -167,6 +230,7 @@ RESPOND JSON:
 
 ORIGINAL CONTENT:
 ${text || "(only images/documents, no text)"}${docInfo}
+${extras}
 
 ${hasImages ? `This post has ${imageUrls.length} image(s).` : ""}
 
@@ -174,11 +238,13 @@ Now evaluate and REWRITE this content. Remember: don't just copy, create YOUR ve
     });
 
 
-    // Add images for vision analysis
+    // Add images for vision analysis (local MTProto downloads go as data URLs)
     for (const url of imageUrls.slice(0, 3)) {
+        const imageUrl = isLocalMedia(url) ? fileToDataUrl(url) : url;
+        if (!imageUrl) continue;
         userContent.push({
             type: "image_url",
-            image_url: { url },
+            image_url: { url: imageUrl },
         });
     }
 
@@ -239,20 +305,44 @@ export async function analyzeImage(imageUrl: string): Promise<string | null> {
     return callMistral(messages, aiConfig.models.imageAnalysis, 300);
 }
 
+/**
+ * Shorten a post to fit a media caption (maxChars of visible text)
+ * Returns Telegram HTML, or null without an API key or on failure
+ */
+export async function shortenText(html: string, maxChars: number): Promise<string | null> {
+    if (!MISTRAL_API_KEY) return null;
+
+    const messages: MistralMessage[] = [
+        {
+            role: "system",
+            content: `Shorten this Telegram post to at most ${maxChars} characters, not counting HTML tags. ` +
+                "Keep exam and post names, dates, deadlines, numbers and links exactly as given, keep the language " +
+                "and the <b>/<i>/<a> formatting. Reply with the shortened post only.",
+        },
+        { role: "user", content: html },
+    ];
+
+    const result = await callMistral(messages, aiConfig.models.textDecision, 800);
+    return result?.replace(/^```(?:html)?\s*|\s*```$/g, "").trim() || null;
+}
+
 /**
  * Batch evaluation - evaluate multiple messages in a single AI call
- * Returns one decision per message
+ * Returns one decision per message (all messages share one prompt variant)
  */
-export async function evaluateBatch(messages: Array<{ text: string; images: string[]; channel: string }>): Promise<AdminDecision[]> {
+export async function evaluateBatch(
+    messages: Array<Pick<TelegramMessage, "text" | "images" | "channel"> & Partial<TelegramMessage>>,
+    promptVariant?: string
+): Promise<AdminDecision[]> {
     if (!MISTRAL_API_KEY || messages.length === 0) {
-        return messages.map(m => ({ shouldPost: true, reason: "No AI", transformedText: m.text }));
+        return messages.map(m => ({ shouldPost: true, reason: "No AI", transformedText: m.html || m.text }));
     }
 
     console.log(`[AI Admin] Batch processing ${messages.length} messages...`);
 
     // Build batch prompt - include original caption with images so AI knows context
     const messageDescriptions = messages.map((m, i) =>
-        `MESSAGE ${i + 1} from @${m.channel}:\nORIGINAL CAPTION: ${m.text || "(no caption)"}\n${m.images.length > 0 ? `[${m.images.length} image(s) attached - use the caption above to understand image context]` : ""}`
+        `MESSAGE ${i + 1} from @${m.channel}:\nORIGINAL CAPTION: ${m.html || m.text || "(no caption)"}\n${m.images.length > 0 ? `[${m.images.length} image(s) attached - use the caption above to understand image context]` : ""}${describeExtras(m) ? `\n${describeExtras(m)}` : ""}`
     ).join("\n\n---\n\n");
 
     const systemPrompt = `You are evaluating ${messages.length} messages for a REET-focused Rajasthan exam channel.
@@ -291,16 +381,21 @@ STYLE RULES:
 - Be CASUAL - no formal corporate tone
 - Use NON-FORMAL Hindi - "baki" not "shesh", "abhi" not "vartman", casual everyday words
 - NO filler text, excessive emojis, or unnecessary hashtags
+- Captions are Telegram HTML - in transformedText use ONLY <b>, <i>, <u>, <s>, <code>, <a href="...">, no markdown
 - Remove source channel branding (@mentions, join links)
 - Do not add any channel link asking to join the channel regardless of what the channel is about
 - For images: use the ORIGINAL CAPTION to understand what the image is about
 - SKIP image-only posts that are just screenshots/photos of notes, handwritten text, or small portions of printed material
+- NATIVE POLL posts are recreated as real polls - only decide shouldPost
+- SKIP sticker-only posts and replies that make no sense on their own
+
+CATEGORY: pick the one that fits each message best: ${aiConfig.categories.join(", ")}
 
 RESPOND with JSON array (one object per message):
 [
-  {"shouldPost": true/false, "reason": "short reason", "transformedText": "your version"},
+  {"shouldPost": true/false, "reason": "short reason", "transformedText": "your version", "category": "..."},
   ...
-]`;
+]${variantRules(promptVariant)}`;
 
     const apiMessages: MistralMessage[] = [
         { role: "system", content: systemPrompt },
@@ -311,7 +406,7 @@ RESPOND with JSON array (one object per message):
 
     if (!response) {
         console.warn("[AI Admin] Batch failed - returning originals");
-        return messages.map(m => ({ shouldPost: true, reason: "AI unavailable", transformedText: m.text }));
+        return messages.map(m => ({ shouldPost: true, reason: "AI unavailable", transformedText: m.html || m.text }));
     }
 
     try {
@@ -330,13 +425,13 @@ RESPOND with JSON array (one object per message):
         return messages.map((m, i) => {
             const d = decisions[i];
             if (!d || typeof d.shouldPost !== "boolean") {
-                return { shouldPost: true, reason: "Parse error", transformedText: m.text };
+                return { shouldPost: true, reason: "Parse error", transformedText: m.html || m.text };
             }
             console.log(`[AI Admin] Msg ${i + 1}: ${d.shouldPost ? "✅" : "❌"} ${d.reason}`);
             return d;
         });
     } catch (err) {
         console.error("[AI Admin] Batch parse failed:", response.slice(0, 300));
-        return messages.map(m => ({ shouldPost: true, reason: "Parse failed", transformedText: m.text }));
+        return messages.map(m => ({ shouldPost: true, reason: "Parse failed", transformedText: m.html || m.text }));
     }
 }
@@ -36,6 +36,16 @@ RESPOND WITH JSON ONLY:
 {"shouldPost": true/false, "reason": "why", "transformedText": "rewritten content"}`;
     },
 
+    // Extra rules per channel group (set a group's "AI prompt variant" on /channels)
+    promptVariants: {
+        official: "These are official sources (boards, commissions). Keep dates, numbers, post names and notice titles exactly as given - only translate/shorten around them.",
+        aggregator: "These channels repost from others. Skip anything that is just a teaser for another channel, and drop their promo lines.",
+        "current-affairs": "Current affairs sources. Post only facts useful for exam GK (appointments, schemes, awards, sports, reports) as 1-2 crisp lines.",
+    } as Record<string, string>,
+
+    // Categories the AI assigns to each post (used by routing rules on /routing)
+    categories: ["reet", "rpsc", "rsmssb", "police", "current-affairs", "other"],
+
     rateLimits: {
         maxRequestsPerMinute: 25,
         retryDelayMs: 2000,
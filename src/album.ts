@@ -0,0 +1,121 @@
+/**
+ * Album helpers - merge grouped messages (albums) into a single post
+ */
+
+import type { TelegramMessage } from "./types";
+
+// Telegram's sendMediaGroup limit
+export const MAX_ALBUM_ITEMS = 10;
+
+// How long to wait for more parts of an album in real-time mode
+const ALBUM_WAIT_MS = 1500;
+
+/**
+ * Merge the parts of an album into one message
+ * Uses the highest ID so last-processed tracking skips every part
+ */
+export function mergeAlbum(parts: TelegramMessage[]): TelegramMessage {
+    const sorted = [...parts].sort((a, b) => parseInt(a.id) - parseInt(b.id));
+    const first = sorted[0]!;
+    const last = sorted[sorted.length - 1]!;
+
+    // The caption usually sits on one item only
+    const captioned = sorted.find((p) => p.text.trim()) || first;
+
+    return {
+        ...first,
+        id: last.id,
+        text: captioned.text,
+        html: captioned.html,
+        images: sorted.flatMap((p) => p.images),
+        videos: sorted.flatMap((p) => p.videos),
+        videoInfo: sorted.some((p) => p.videoInfo?.length) ? sorted.flatMap((p) => p.videoInfo || []) : undefined,
+        documents: sorted.flatMap((p) => p.documents),
+        links: [...new Set(sorted.flatMap((p) => p.links))],
+        audio: sorted.some((p) => p.audio?.length) ? sorted.flatMap((p) => p.audio || []) : undefined,
+        albumIds: sorted.flatMap((p) => p.albumIds || [p.id]),
+    };
+}
+
+/**
+ * Collapse album parts in a message list (any order) into merged messages
+ * Result is newest first, like the scrapers return
+ */
+export function groupAlbums(messages: TelegramMessage[]): TelegramMessage[] {
+    const groups = new Map<string, TelegramMessage[]>();
+    const result: TelegramMessage[] = [];
+
+    for (const msg of messages) {
+        if (!msg.groupedId) {
+            result.push(msg);
+            continue;
+        }
+        const parts = groups.get(msg.groupedId) || [];
+        parts.push(msg);
+        groups.set(msg.groupedId, parts);
+    }
+
+    for (const parts of groups.values()) {
+        result.push(mergeAlbum(parts));
+    }
+
+    return result.sort((a, b) => parseInt(b.id) - parseInt(a.id));
+}
+
+/**
+ * Check if a message has more than one media item to post
+ */
+export function isAlbum(message: TelegramMessage): boolean {
+    return message.images.length + message.videos.length > 1 || message.documents.length > 1;
+}
+
+/**
+ * Buffer album parts arriving one by one (real-time updates)
+ * Flushes the merged album once no new part arrived for a short while
+ */
+export function createAlbumBuffer(
+    onComplete: (message: TelegramMessage) => Promise<void>,
+    waitMs: number = ALBUM_WAIT_MS
+): { add: (message: TelegramMessage) => void } {
+    const pending = new Map<string, { parts: TelegramMessage[]; timer: ReturnType<typeof setTimeout> }>();
+
+    function flush(groupedId: string): void {
+        const entry = pending.get(groupedId);
+        if (!entry) return;
+        pending.delete(groupedId);
+
+        console.log(`[Album] Album ${groupedId} complete (${entry.parts.length} parts)`);
+        onComplete(mergeAlbum(entry.parts)).catch((err) =>
+            console.error("[Album] Failed to process album:", err.message)
+        );
+    }
+
+    return {
+        add(message: TelegramMessage): void {
+            const groupedId = message.groupedId;
+            if (!groupedId) {
+                onComplete(message).catch((err) =>
+                    console.error("[Album] Failed to process message:", err.message)
+                );
+                return;
+            }
+
+            const entry = pending.get(groupedId);
+            if (entry) {
+                clearTimeout(entry.timer);
+                entry.parts.push(message);
+                // Albums never exceed 10 items - no need to wait for more
+                if (entry.parts.length >= MAX_ALBUM_ITEMS) {
+                    flush(groupedId);
+                    return;
+                }
+                entry.timer = setTimeout(() => flush(groupedId), waitMs);
+            } else {
+                pending.set(groupedId, {
+                    parts: [message],
+                    timer: setTimeout(() => flush(groupedId), waitMs),
+                });
+            }
+        },
+    };
+}
@@ -1,11 +1,21 @@
-import { Bot, InputFile } from "grammy";
+import { Bot, GrammyError, InlineKeyboard, InputFile, InputMediaBuilder } from "grammy";
 import { config } from "./config";
-import type { TelegramMessage } from "./types";
+import type { TelegramMessage, PollInfo, VideoInfo } from "./types";
+import type { PublishProfile } from "./data/routing";
+import { isAlbum, MAX_ALBUM_ITEMS } from "./album";
+import { isLocalMedia, formatSize } from "./media-store";
+import { escapeHtml, stripHtml, sanitizeHtml } from "./formatter";
+import { layoutCaption } from "./caption-layout";
+import { fetchBuffer, downloadToFile } from "./http-client";
+import { uploadVideo, getAuthStatus } from "./mtproto-scraper";
+import { resolveDocument } from "./document-resolver";
 import { existsSync, unlinkSync, writeFileSync } from "fs";
 import { join } from "path";
 
 let bot: Bot | null = null;
 
+const BOT_API_UPLOAD_LIMIT = 50 * 1024 * 1024;
+
 /**
  * Initialize the Grammy bot
  */
@@ -18,48 +28,233 @@ export function initBot(): Bot {
 }
 
 /**
- * Post a text message to the channel
+ * Where a repost ended up (used to sync source edits and deletes)
+ */
+export interface PublishedPost {
+    chatId: string;
+    messageIds: number[];
+    kind: "text" | "caption" | "poll"; // How the first message's text can be edited
+}
+
+/**
+ * Send an operational alert to ADMIN_CHAT_ID (no-op when unset)
  */
-export async function postText(text: string): Promise<void> {
+export async function sendAdminAlert(text: string): Promise<void> {
+    if (!config.adminChatId) return;
+
+    try {
+        await initBot().api.sendMessage(config.adminChatId, text);
+    } catch (err: any) {
+        console.error("[Bot] Failed to send admin alert:", err.message);
+    }
+}
+
+/**
+ * Handlers for updates sent to the bot (review buttons and replies)
+ */
+export interface BotUpdateHandlers {
+    // Returns the toast shown to whoever pressed the button
+    onButton: (chatId: string, data: string, user: string) => Promise<string>;
+    onReply: (chatId: string, replyToId: number, text: string, user: string) => Promise<void>;
+}
+
+// Rows of [label, callback data]
+export type ButtonRows = [string, string][][];
+
+/**
+ * Start long polling for button presses and replies
+ * (only needed for review - posting works without it)
+ */
+export function startBotUpdates(handlers: BotUpdateHandlers): void {
     const b = initBot();
-    await b.api.sendMessage(config.channelId, text, {
+
+    const userName = (from: { username?: string; first_name: string }) =>
+        from.username ? `@${from.username}` : from.first_name;
+
+    b.on("callback_query:data", async (ctx) => {
+        const chatId = String(ctx.callbackQuery.message?.chat.id ?? "");
+        const user = userName(ctx.from);
+        const toast = await handlers.onButton(chatId, ctx.callbackQuery.data, user)
+            .catch((err) => `Failed: ${err.message}`);
+        await ctx.answerCallbackQuery({ text: toast }).catch(() => {});
+    });
+
+    b.on("message:text", async (ctx) => {
+        const replyTo = ctx.message.reply_to_message?.message_id;
+        if (!replyTo) return;
+        await handlers.onReply(String(ctx.chat.id), replyTo, ctx.message.text, userName(ctx.from))
+            .catch((err) => console.error("[Bot] Reply handler failed:", err));
+    });
+
+    b.catch((err) => console.error("[Bot] Update failed:", err.error));
+
+    b.start({
+        allowed_updates: ["message", "callback_query"],
+        onStart: (me) => console.log(`[Bot] Listening for updates as @${me.username}`),
+    }).catch((err) => console.error("[Bot] Polling stopped:", err.message));
+}
+
+/**
+ * Numeric ID of a chat given as @username (updates only carry numeric IDs)
+ */
+export async function resolveChatId(chat: string): Promise<string> {
+    if (/^-?\d+$/.test(chat)) return chat;
+    return String((await initBot().api.getChat(chat)).id);
+}
+
+/**
+ * Send HTML with inline buttons, returns the message ID
+ */
+export async function sendWithButtons(chatId: string, html: string, rows: ButtonRows, replyTo?: number): Promise<number> {
+    const sent = await initBot().api.sendMessage(chatId, html, {
         parse_mode: "HTML",
-        link_preview_options: { is_disabled: false },
+        reply_markup: keyboard(rows),
+        ...(replyTo ? { reply_parameters: { message_id: replyTo, allow_sending_without_reply: true } } : {}),
     });
+    return sent.message_id;
 }
 
 /**
- * Post a message with optional media to the channel
+ * Replace a button message's text and buttons (no rows = remove them)
+ */
+export async function editWithButtons(chatId: string, messageId: number, html: string, rows: ButtonRows = []): Promise<void> {
+    try {
+        await initBot().api.editMessageText(chatId, messageId, html, { parse_mode: "HTML", reply_markup: keyboard(rows) });
+    } catch (err) {
+        if (err instanceof GrammyError && err.description.includes("message is not modified")) return;
+        throw err;
+    }
+}
+
+/**
+ * Ask for a reply (Telegram opens the reply box), returns the prompt's message ID
+ */
+export async function askForReply(chatId: string, html: string, replyTo?: number): Promise<number> {
+    const sent = await initBot().api.sendMessage(chatId, html, {
+        parse_mode: "HTML",
+        reply_markup: { force_reply: true, selective: true },
+        ...(replyTo ? { reply_parameters: { message_id: replyTo, allow_sending_without_reply: true } } : {}),
+    });
+    return sent.message_id;
+}
+
+function keyboard(rows: ButtonRows): InlineKeyboard {
+    return InlineKeyboard.from(rows.map((row) => row.map(([label, data]) => InlineKeyboard.text(label, data))));
+}
+
+/**
+ * Send options every post of a target gets (from its publish profile)
+ */
+type SendExtras = {
+    disable_notification?: boolean;
+    protect_content?: boolean;
+    reply_markup?: InlineKeyboard;
+};
+
+/**
+ * Post a text message to the channel
+ */
+export async function postText(text: string, chatId: string = config.channelId, extras: SendExtras = {}): Promise<PublishedPost> {
+    const b = initBot();
+    const sent = await withHtmlFallback(text, (text, parse_mode) =>
+        b.api.sendMessage(chatId, text, {
+            ...extras,
+            parse_mode,
+            link_preview_options: { is_disabled: false },
+        })
+    );
+    return published(chatId, sent, "text");
+}
+
+/**
+ * Send with parse_mode HTML, retrying as plain text if Telegram rejects the markup
+ */
+async function withHtmlFallback<T>(
+    html: string,
+    send: (text: string, parseMode?: "HTML") => Promise<T>
+): Promise<T> {
+    try {
+        return await send(html, "HTML");
+    } catch (err) {
+        if (!(err instanceof GrammyError) || !err.description.includes("can't parse entities")) {
+            throw err;
+        }
+        console.warn(`[Bot] Telegram rejected the HTML (${err.description}) - sending as plain text`);
+        return await send(stripHtml(html));
+    }
+}
+
+/**
+ * Post a message with optional media to the channel (or a group's target)
+ * The target's profile adds silent/protected sending, link buttons, a custom
+ * footer and pinning. Captions over Telegram's limit are laid out by
+ * caption-layout.ts (short caption + the full text as a reply).
  */
 export async function postMessage(
     message: TelegramMessage,
-    includeSource: boolean = true
-): Promise<void> {
+    includeSource: boolean = true,
+    chatId: string = config.channelId,
+    profile: PublishProfile = {}
+): Promise<PublishedPost | null> {
+    const text = buildPostText(message, includeSource, profile);
+    const layout = layoutCaption(text);
+
+    const post = await sendPost(message, text, layout.caption, chatId, profile);
+    if (post?.kind === "caption" && layout.replies.length > 0) {
+        await postFullText(post, layout.replies, profile);
+    }
+    if (post && shouldPin(message, profile)) {
+        await pinPost(post, profile);
+    }
+    return post;
+}
+
+/**
+ * Send a post: `caption` goes on media, the full `text` is used when it falls back to text
+ */
+async function sendPost(
+    message: TelegramMessage,
+    text: string,
+    caption: string,
+    chatId: string,
+    profile: PublishProfile
+): Promise<PublishedPost | null> {
     const b = initBot();
+    const extras = sendExtras(message, profile);
 
-    // Build caption/text
-    let text = message.text;
-    if (includeSource) {
-        text += `\n\n📢 from @${message.channel}`;
+    // Polls are recreated natively (a poll can't carry a caption)
+    if (message.poll && message.poll.options.length >= 2) {
+        return await postPoll(chatId, message.poll, extras);
+    }
+
+    // Albums go out as media group(s)
+    if (isAlbum(message)) {
+        try {
+            return await postAlbum(chatId, message, caption, extras);
+        } catch (err) {
+            console.error("[Bot] Failed to send album, falling back to single media:", err);
+        }
     }
 
     // If there are images, send as photo(s)
     if (message.images.length > 0) {
         const imageUrl = message.images[0];
-        if (!imageUrl) return;
+        if (!imageUrl) return null;
 
         try {
             // Try to download and send
             const imagePath = await downloadMedia(imageUrl, message.id);
 
             if (imagePath) {
-                await b.api.sendPhoto(config.channelId, new InputFile(imagePath), {
-                    caption: text,
-                    parse_mode: "HTML",
-                });
-                // Clean up
-                cleanupMedia(imagePath);
-                return;
+                const sent = await withHtmlFallback(caption, (caption, parse_mode) =>
+                    b.api.sendPhoto(chatId, new InputFile(imagePath), {
+                        ...extras,
+                        caption,
+                        parse_mode,
+                    })
+                );
+                cleanupMedia(imagePath, imageUrl);
+                return published(chatId, sent, "caption");
             }
         } catch (err) {
             console.error("[Bot] Failed to send image, falling back to text:", err);
@@ -67,71 +262,497 @@ export async function postMessage(
 
         // Fallback: try sending URL directly
         try {
-            await b.api.sendPhoto(config.channelId, imageUrl, {
-                caption: text,
-                parse_mode: "HTML",
-            });
-            return;
+            const sent = await withHtmlFallback(caption, (caption, parse_mode) =>
+                b.api.sendPhoto(chatId, imageUrl, {
+                    ...extras,
+                    caption,
+                    parse_mode,
+                })
+            );
+            return published(chatId, sent, "caption");
         } catch {
             // Fall through to text
         }
     }
 
-    // If there are videos, try to send
+    // Videos are downloaded and uploaded with streaming metadata
     if (message.videos.length > 0) {
         const videoUrl = message.videos[0];
-        if (!videoUrl) return;
+        if (!videoUrl) return null;
+
+        const post = await postVideo(chatId, videoUrl, message.videoInfo?.find((v) => v.url === videoUrl), caption, message.id, extras);
+        if (post) return post;
+    }
+
+    // If there are documents (PDFs, files), fetch the real file and send
+    if (message.documents && message.documents.length > 0) {
+        const doc = message.documents[0];
+        if (!doc?.url) return null;
+
+        // Use AI-suggested filename or original title
+        const filename = doc.suggestedFilename || doc.title;
+        console.log(`[Bot] Resolving document: ${doc.title}${doc.suggestedFilename ? ` → ${doc.suggestedFilename}` : ""}`);
 
+        const docPath = await resolveDocument(doc.url, filename, message.channel, doc.title);
+        if (docPath) {
+            try {
+                const sent = await withHtmlFallback(caption || escapeHtml(doc.title), (caption, parse_mode) =>
+                    b.api.sendDocument(chatId, new InputFile(docPath, filename), {
+                        ...extras,
+                        caption,
+                        parse_mode,
+                    })
+                );
+                return published(chatId, sent, "caption");
+            } catch (err) {
+                console.error("[Bot] Failed to send document:", err);
+            } finally {
+                cleanupMedia(docPath, doc.url);
+            }
+        }
+
+        // Couldn't get the file - post the text with a link to it instead
+        // (a local path from MTProto is no use to readers)
+        if (/^https?:\/\//i.test(doc.url)) {
+            text += `${text ? "\n\n" : ""}📎 <a href="${escapeHtml(doc.url)}">${escapeHtml(doc.title)}</a>`;
+        }
+    }
+
+    // Music and voice notes
+    const track = message.audio?.[0];
+    if (track) {
         try {
-            await b.api.sendVideo(config.channelId, videoUrl, {
-                caption: text,
-                parse_mode: "HTML",
-            });
-            return;
+            const file = isLocalMedia(track.url) ? new InputFile(track.url) : track.url;
+            const sent = track.voice
+                ? await withHtmlFallback(caption, (caption, parse_mode) =>
+                    b.api.sendVoice(chatId, file, {
+                        ...extras,
+                        caption,
+                        parse_mode,
+                        duration: track.duration,
+                    })
+                )
+                : await withHtmlFallback(caption, (caption, parse_mode) =>
+                    b.api.sendAudio(chatId, file, {
+                        ...extras,
+                        caption,
+                        parse_mode,
+                        duration: track.duration,
+                        title: track.title,
+                        performer: track.performer,
+                    })
+                );
+            return published(chatId, sent, "caption");
         } catch (err) {
-            console.error("[Bot] Failed to send video, falling back to text:", err);
+            console.error("[Bot] Failed to send audio, falling back to text:", err);
         }
     }
 
-    // If there are documents (PDFs, files), download and send
-    if (message.documents && message.documents.length > 0) {
-        const doc = message.documents[0];
-        if (!doc?.url) return;
+    // Fallback to text only
+    if (text.trim()) {
+        return await postText(text, chatId, extras);
+    }
+    return null;
+}
 
+/**
+ * Send the full text of an over-long caption as a thread under the media
+ * The reply IDs join the post, so deleting it removes them too
+ */
+async function postFullText(post: PublishedPost, replies: string[], profile: PublishProfile): Promise<void> {
+    const b = initBot();
+    let replyTo = post.messageIds[0];
+
+    for (const html of replies) {
         try {
-            // Use AI-suggested filename or original title
-            const filename = doc.suggestedFilename || doc.title;
-            console.log(`[Bot] Downloading document: ${doc.title}${doc.suggestedFilename ? ` → ${doc.suggestedFilename}` : ""}`);
+            const sent = await withHtmlFallback(html, (text, parse_mode) =>
+                b.api.sendMessage(post.chatId, text, {
+                    parse_mode,
+                    disable_notification: true,
+                    protect_content: profile.protectContent,
+                    link_preview_options: { is_disabled: true },
+                    reply_parameters: replyTo ? { message_id: replyTo, allow_sending_without_reply: true } : undefined,
+                })
+            );
+            post.messageIds.push(sent.message_id);
+            replyTo = sent.message_id;
+        } catch (err) {
+            // The media is out already - retrying the whole post would duplicate it
+            console.error(`[Bot] Failed to send the full text under post ${post.messageIds[0]} in ${post.chatId}:`, err);
+            return;
+        }
+    }
+    console.log(`[Bot] 🧵 Caption too long - full text sent as ${replies.length} repl${replies.length === 1 ? "y" : "ies"}`);
+}
 
-            const docPath = await downloadMedia(doc.url, `${message.id}_doc`, filename);
+/**
+ * Send options from a target's publish profile
+ */
+function sendExtras(message: TelegramMessage, profile: PublishProfile): SendExtras {
+    const buttons = profile.buttons ? linkButtons(message) : undefined;
+    return {
+        ...(profile.silent ? { disable_notification: true } : {}),
+        ...(profile.protectContent ? { protect_content: true } : {}),
+        ...(buttons ? { reply_markup: buttons } : {}),
+    };
+}
 
-            if (docPath) {
-                await b.api.sendDocument(config.channelId, new InputFile(docPath, filename), {
-                    caption: text || doc.title,
-                    parse_mode: "HTML",
-                });
-                cleanupMedia(docPath);
-                return;
+const MAX_LINK_BUTTONS = 3;
+
+/**
+ * URL buttons for the links in a post ("Download PDF", "Official link"...)
+ * Telegram links are left out, they're usually the source's own promos
+ */
+function linkButtons(message: TelegramMessage): InlineKeyboard | undefined {
+    const urls = [...new Set([...message.links, ...(message.sourceUrl ? [message.sourceUrl] : [])])];
+    const buttons: [string, string][] = [];
+
+    for (const url of urls) {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            continue;
+        }
+        if (!/^https?:$/.test(parsed.protocol) || /^(t|telegram)\.me$/i.test(parsed.hostname)) continue;
+        buttons.push([linkLabel(parsed), url]);
+        if (buttons.length >= MAX_LINK_BUTTONS) break;
+    }
+
+    if (buttons.length === 0) return undefined;
+    return InlineKeyboard.from(buttons.map(([label, url]) => [InlineKeyboard.url(label, url)]));
+}
+
+function linkLabel(url: URL): string {
+    if (/\.pdf$/i.test(url.pathname)) return "📥 Download PDF";
+    if (/\.(gov|nic)\.in$/i.test(url.hostname)) return "🏛️ Official link";
+    return `🔗 ${url.hostname.replace(/^www\./, "")}`;
+}
+
+/**
+ * Whether a post mentions one of the target's pin keywords
+ */
+function shouldPin(message: TelegramMessage, profile: PublishProfile): boolean {
+    if (!profile.pinKeywords?.length) return false;
+    const text = message.text.toLowerCase();
+    return profile.pinKeywords.some((k) => k.trim() && text.includes(k.trim().toLowerCase()));
+}
+
+/**
+ * Pin a published post (needs the bot's "pin messages" right, failures are only logged)
+ */
+async function pinPost(post: PublishedPost, profile: PublishProfile): Promise<void> {
+    const messageId = post.messageIds[0];
+    if (!messageId) return;
+
+    try {
+        await initBot().api.pinChatMessage(post.chatId, messageId, { disable_notification: profile.silent });
+        console.log(`[Bot] 📌 Pinned post ${messageId} in ${post.chatId}`);
+    } catch (err) {
+        console.error(`[Bot] Failed to pin post in ${post.chatId}:`, err);
+    }
+}
+
+/**
+ * Post a video: download it, send with supports_streaming/duration/thumbnail,
+ * and hand anything over the Bot API's 50 MB upload limit to MTProto
+ */
+async function postVideo(
+    chatId: string,
+    videoUrl: string,
+    info: VideoInfo | undefined,
+    text: string,
+    messageId: string,
+    extras: SendExtras = {}
+): Promise<PublishedPost | null> {
+    const b = initBot();
+    const videoPath = isLocalMedia(videoUrl) ? videoUrl : await downloadVideo(videoUrl, messageId);
+    const thumbPath = info?.thumbnail ? await downloadMedia(info.thumbnail, `${messageId}_thumb`) : null;
+
+    try {
+        if (videoPath) {
+            const size = Bun.file(videoPath).size;
+
+            if (size > BOT_API_UPLOAD_LIMIT) {
+                if (!getAuthStatus().authenticated) {
+                    console.warn(`[Bot] Video is ${formatSize(size)} - over the Bot API limit and MTProto isn't logged in`);
+                    return null;
+                }
+                console.log(`[Bot] Video is ${formatSize(size)} - uploading via MTProto`);
+                // MTProto uploads come from a user account, which can't attach buttons
+                const id = await uploadVideo(chatId, videoPath, text, {
+                    ...info,
+                    url: videoPath,
+                    thumbnail: thumbPath || undefined,
+                }, { silent: extras.disable_notification, noforwards: extras.protect_content });
+                return id ? { chatId, messageIds: [id], kind: "caption" } : null;
             }
-        } catch (err) {
-            console.error("[Bot] Failed to send document:", err);
+
+            const sent = await withHtmlFallback(text, (caption, parse_mode) =>
+                b.api.sendVideo(chatId, new InputFile(videoPath), {
+                    ...extras,
+                    caption,
+                    parse_mode,
+                    supports_streaming: true,
+                    duration: info?.duration,
+                    width: info?.width,
+                    height: info?.height,
+                    thumbnail: thumbPath ? new InputFile(thumbPath) : undefined,
+                })
+            );
+            return published(chatId, sent, "caption");
         }
+    } catch (err) {
+        console.error("[Bot] Failed to upload video:", err);
+    } finally {
+        if (videoPath) cleanupMedia(videoPath, videoUrl);
+        if (thumbPath) cleanupMedia(thumbPath, info?.thumbnail);
+    }
+
+    // Fallback: let Telegram fetch the URL itself
+    if (isLocalMedia(videoUrl)) return null;
+    try {
+        const sent = await withHtmlFallback(text, (caption, parse_mode) =>
+            b.api.sendVideo(chatId, videoUrl, { ...extras, caption, parse_mode, supports_streaming: true })
+        );
+        return published(chatId, sent, "caption");
+    } catch (err) {
+        console.error("[Bot] Failed to send video, falling back to text:", err);
+        return null;
+    }
+}
+
+/**
+ * Stream a remote video into the media dir (capped at MAX_VIDEO_MB)
+ */
+async function downloadVideo(url: string, messageId: string): Promise<string | null> {
+    const filepath = join(config.mediaDir, `${messageId}_video.mp4`);
+    try {
+        const size = await downloadToFile(url, filepath, { maxBytes: config.maxVideoMb * 1024 * 1024 });
+        if (size === null) {
+            console.warn(`[Bot] Video not downloaded (missing or over ${config.maxVideoMb} MB)`);
+            return null;
+        }
+        return filepath;
+    } catch (err) {
+        console.error("[Bot] Video download failed:", err);
+        return null;
+    }
+}
+
+/**
+ * Build the post text (Telegram HTML) with the optional source footer
+ * (or the target's footer template)
+ */
+export function buildPostText(message: TelegramMessage, includeSource: boolean, profile: PublishProfile = {}): string {
+    let text = message.html || escapeHtml(message.text);
+    const source = message.sourceUrl
+        ? `<a href="${escapeHtml(message.sourceUrl)}">${escapeHtml(message.channel)}</a>`
+        : `@${escapeHtml(message.channel)}`;
+
+    if (profile.footer) {
+        const footer = renderFooter(profile.footer, message, includeSource ? source : "");
+        if (footer) text += `\n\n${footer}`;
+    } else if (includeSource) {
+        text += `\n\n📢 from ${source}`;
+    }
+    return text;
+}
+
+/**
+ * Fill a footer template: {source} (empty when the source is hidden),
+ * {channel}, {link} to the original and {date}
+ * Lines left empty (e.g. a hidden {source}) are dropped
+ */
+function renderFooter(template: string, message: TelegramMessage, source: string): string {
+    const link = message.sourceUrl || (/^\d+$/.test(message.id) ? `https://t.me/${message.channel}/${message.id}` : "");
+    const date = new Intl.DateTimeFormat("en-GB", { timeZone: config.timezone, day: "2-digit", month: "short", year: "numeric" })
+        .format(Number.isNaN(Date.parse(message.date)) ? new Date() : new Date(message.date));
+    const values: Record<string, string> = {
+        source,
+        channel: escapeHtml(message.channel),
+        link: escapeHtml(link),
+        date,
+    };
+
+    // Sanitized after filling, so href="{link}" is a real URL by then
+    const filled = sanitizeHtml(template.replace(/\{(source|channel|link|date)\}/g, (_, key: string) => values[key] || ""));
+    return filled.split("\n").filter((line) => line.trim()).join("\n");
+}
+
+/**
+ * Collect message IDs from a send result
+ */
+function published(
+    chatId: string,
+    sent: { message_id: number } | { message_id: number }[],
+    kind: PublishedPost["kind"]
+): PublishedPost {
+    const messages = Array.isArray(sent) ? sent : [sent];
+    return { chatId, messageIds: messages.map((m) => m.message_id), kind };
+}
+
+/**
+ * Recreate a source poll natively
+ * Quiz answers aren't visible to us, so quizzes become regular polls
+ */
+async function postPoll(chatId: string, poll: PollInfo, extras: SendExtras = {}): Promise<PublishedPost> {
+    const b = initBot();
+    const truncate = (text: string, max: number) => text.length <= max ? text : text.slice(0, max - 3) + "...";
+
+    const sent = await b.api.sendPoll(
+        chatId,
+        truncate(poll.question, 300),
+        poll.options.slice(0, 10).map((o) => truncate(o, 100)),
+        {
+            ...extras,
+            is_anonymous: true,
+            allows_multiple_answers: poll.multipleChoice,
+        }
+    );
+    return published(chatId, sent, "poll");
+}
+
+type AlbumItem = { type: "photo" | "video" | "document"; url: string; filename?: string; title?: string };
+
+/**
+ * Post an album with sendMediaGroup
+ * Photos and videos can be mixed, documents must go in their own group,
+ * and each group holds at most 10 items. Caption goes on the first item.
+ * Media groups can't carry buttons, so those only survive on single items.
+ */
+async function postAlbum(chatId: string, message: TelegramMessage, text: string, extras: SendExtras = {}): Promise<PublishedPost> {
+    const b = initBot();
+
+    const visual: AlbumItem[] = [
+        ...message.images.map((url) => ({ type: "photo" as const, url })),
+        ...message.videos.map((url) => ({ type: "video" as const, url })),
+    ];
+    const docs: AlbumItem[] = message.documents.map((d) => ({
+        type: "document" as const,
+        url: d.url,
+        filename: d.suggestedFilename || d.title,
+        title: d.title,
+    }));
+
+    const groups: AlbumItem[][] = [];
+    for (const items of [visual, docs]) {
+        for (let i = 0; i < items.length; i += MAX_ALBUM_ITEMS) {
+            groups.push(items.slice(i, i + MAX_ALBUM_ITEMS));
+        }
+    }
+
+    console.log(`[Bot] Posting album: ${visual.length} photo/video, ${docs.length} document(s) in ${groups.length} group(s)`);
+
+    let captionUsed = false;
+    const messageIds: number[] = [];
+    for (const [g, group] of groups.entries()) {
+        const downloaded: string[] = [];
 
-        // Fallback: try URL directly (can't rename with this method)
         try {
-            await b.api.sendDocument(config.channelId, doc.url, {
-                caption: text || doc.title,
-                parse_mode: "HTML",
+            const files: (InputFile | string)[] = [];
+            for (const [i, item] of group.entries()) {
+                const path = item.type === "document"
+                    ? await resolveDocument(item.url, item.filename || "document", message.channel, item.title)
+                    : await downloadMedia(item.url, `${message.id}_${g}_${i}`, item.filename);
+                if (path && path !== item.url) downloaded.push(path);
+                if (!path && item.type === "document") {
+                    throw new Error(`Document ${item.filename} could not be fetched`);
+                }
+                files.push(path ? new InputFile(path, item.filename) : item.url);
+            }
+
+            const caption = !captionUsed && text.trim() ? text : "";
+            const sent = await withHtmlFallback<{ message_id: number } | { message_id: number }[]>(caption, (caption, parse_mode) => {
+                const media = group.map((item, i) => {
+                    const options = i === 0 && caption ? { caption, parse_mode } : {};
+                    const file = files[i]!;
+                    if (item.type === "photo") return InputMediaBuilder.photo(file, options);
+                    if (item.type === "video") {
+                        const info = message.videoInfo?.find((v) => v.url === item.url);
+                        return InputMediaBuilder.video(file, {
+                            ...options,
+                            supports_streaming: true,
+                            duration: info?.duration,
+                            width: info?.width,
+                            height: info?.height,
+                        });
+                    }
+                    return InputMediaBuilder.document(file, options);
+                });
+
+                // A trailing group of one item can't be a media group
+                const [single] = media;
+                if (media.length === 1 && single) {
+                    const other = { ...extras, caption: single.caption, parse_mode: single.parse_mode };
+                    if (single.type === "photo") return b.api.sendPhoto(chatId, single.media, other);
+                    if (single.type === "video") {
+                        return b.api.sendVideo(chatId, single.media, { ...other, supports_streaming: true });
+                    }
+                    return b.api.sendDocument(chatId, single.media, other);
+                }
+                const { reply_markup, ...groupExtras } = extras;
+                return b.api.sendMediaGroup(chatId, media, groupExtras);
             });
-            return;
-        } catch {
-            // Fall through to text
+            messageIds.push(...published(chatId, sent, "caption").messageIds);
+            captionUsed = captionUsed || Boolean(text.trim());
+        } catch (err) {
+            // Only the first group may fall back, later ones would duplicate it
+            if (g === 0) throw err;
+            console.error(`[Bot] Failed to send album group ${g + 1}/${groups.length}:`, err);
+        } finally {
+            downloaded.forEach((path) => cleanupMedia(path));
         }
     }
 
-    // Fallback to text only
-    if (text.trim()) {
-        await postText(text);
+    return { chatId, messageIds, kind: "caption" };
+}
+
+/**
+ * Update a published post after its source was edited
+ */
+export async function editPublishedPost(
+    post: PublishedPost,
+    message: TelegramMessage,
+    includeSource: boolean = true,
+    profile: PublishProfile = {}
+): Promise<boolean> {
+    const b = initBot();
+    const messageId = post.messageIds[0];
+    if (!messageId || post.kind === "poll") return false;
+
+    // Threaded full-text replies of a long caption are left as they are
+    const fullText = buildPostText(message, includeSource, profile);
+    const text = post.kind === "caption" ? layoutCaption(fullText).caption : fullText;
+    const reply_markup = profile.buttons ? linkButtons(message) : undefined;
+
+    try {
+        await withHtmlFallback<unknown>(text, (text, parse_mode) =>
+            post.kind === "text"
+                ? b.api.editMessageText(post.chatId, messageId, text, { parse_mode, reply_markup })
+                : b.api.editMessageCaption(post.chatId, messageId, { caption: text, parse_mode, reply_markup })
+        );
+        return true;
+    } catch (err) {
+        if (err instanceof GrammyError && err.description.includes("message is not modified")) {
+            return true;
+        }
+        console.error("[Bot] Failed to edit post:", err);
+        return false;
+    }
+}
+
+/**
+ * Delete a published post (all messages of an album)
+ */
+export async function deletePublishedPost(post: PublishedPost): Promise<boolean> {
+    const b = initBot();
+    try {
+        await b.api.deleteMessages(post.chatId, post.messageIds);
+        return true;
+    } catch (err) {
+        console.error("[Bot] Failed to delete post:", err);
+        return false;
     }
 }
 
@@ -143,18 +764,20 @@ async function downloadMedia(
     messageId: string,
     customFilename?: string
 ): Promise<string | null> {
+    // Already downloaded (MTProto media) - upload straight from disk
+    if (isLocalMedia(url)) return url;
+
     try {
-        const response = await fetch(url);
-        if (!response.ok) return null;
+        const buffer = await fetchBuffer(url);
+        if (!buffer) return null;
 
-        const buffer = await response.arrayBuffer();
         const ext = url.split(".").pop()?.split("?")[0] || "jpg";
 
         // Use custom filename if provided, otherwise generate from messageId
         const filename = customFilename || `${messageId}.${ext}`;
         const filepath = join(config.mediaDir, filename);
 
-        writeFileSync(filepath, Buffer.from(buffer));
+        writeFileSync(filepath, buffer);
         return filepath;
     } catch (err) {
         console.error("[Bot] Download failed:", err);
@@ -165,7 +788,10 @@ async function downloadMedia(
 /**
  * Clean up downloaded media
  */
-function cleanupMedia(filepath: string): void {
+function cleanupMedia(filepath: string, sourceUrl?: string): void {
+    // Media that was already local (MTProto) is released by the poster
+    if (filepath === sourceUrl) return;
+
     try {
         if (existsSync(filepath)) {
             unlinkSync(filepath);
@@ -0,0 +1,122 @@
+/**
+ * Caption Layout - Fit post text into Telegram's length limits
+ * Limits count the text left once the HTML is parsed into entities, so markup
+ * is free. A caption that's too long either goes out as a short teaser with the
+ * full text as a threaded reply, or is shortened by the AI first - which one
+ * depends on the message type (a PDF speaks for itself, a notice image doesn't).
+ */
+
+import { isAlbum } from "./album";
+import { escapeHtml, stripHtml, htmlToTelegram } from "./formatter";
+import type { TelegramMessage } from "./types";
+
+export const CAPTION_LIMIT = 1024;
+export const TEXT_LIMIT = 4096;
+
+// Visible length of the caption left on media when the text moves to a reply
+const TEASER_LENGTH = 200;
+const MORE = "\n\n⬇️ <i>Full text below</i>";
+
+export type MediaKind = "text" | "poll" | "album" | "photo" | "video" | "document" | "audio";
+export type OverflowStrategy = "reply" | "shorten";
+
+// What to do with a caption that doesn't fit, per message type
+const OVERFLOW: Partial<Record<MediaKind, OverflowStrategy>> = {
+    album: "reply",
+    photo: "reply",
+    video: "reply",
+    document: "shorten",
+    audio: "shorten",
+};
+
+export interface CaptionLayout {
+    caption: string;     // Goes on the media
+    replies: string[];   // Full text, threaded under the media (empty if the caption fits)
+}
+
+/**
+ * What a message is sent as (same order as postMessage tries them)
+ */
+export function mediaKind(message: TelegramMessage): MediaKind {
+    if (message.poll && message.poll.options.length >= 2) return "poll";
+    if (isAlbum(message)) return "album";
+    if (message.images.length > 0) return "photo";
+    if (message.videos.length > 0) return "video";
+    if (message.documents.length > 0) return "document";
+    if (message.audio?.length) return "audio";
+    return "text";
+}
+
+/**
+ * How an over-long caption is handled, null when the message has no caption
+ */
+export function overflowStrategy(message: TelegramMessage): OverflowStrategy | null {
+    return OVERFLOW[mediaKind(message)] || null;
+}
+
+/**
+ * Length Telegram counts for a limit (text after entity parsing, in UTF-16 units)
+ */
+export function visibleLength(html: string): number {
+    return stripHtml(html).length;
+}
+
+/**
+ * Lay out post text as a caption, moving it to replies when it's too long
+ */
+export function layoutCaption(html: string): CaptionLayout {
+    if (visibleLength(html) <= CAPTION_LIMIT) {
+        return { caption: html, replies: [] };
+    }
+
+    const [teaser = ""] = splitHtml(html, TEASER_LENGTH);
+    return { caption: teaser + MORE, replies: splitHtml(html, TEXT_LIMIT) };
+}
+
+/**
+ * Split Telegram HTML into chunks of at most `limit` visible characters
+ * Cuts between lines where possible; tags cut across chunks are closed/reopened
+ * by re-rendering each chunk, and a single over-long line loses its markup
+ */
+export function splitHtml(html: string, limit: number): string[] {
+    const chunks: string[] = [];
+    let lines: string[] = [];
+    let length = 0;
+
+    const flush = () => {
+        const chunk = htmlToTelegram(lines.join("\n"));
+        if (chunk) chunks.push(chunk);
+        lines = [];
+        length = 0;
+    };
+
+    for (const line of html.split("\n")) {
+        const lineLength = visibleLength(line);
+        if (lineLength > limit) {
+            flush();
+            chunks.push(...splitWords(stripHtml(line), limit).map(escapeHtml));
+            continue;
+        }
+        if (lines.length > 0 && length + 1 + lineLength > limit) flush();
+        length += (lines.length > 0 ? 1 : 0) + lineLength;
+        lines.push(line);
+    }
+    flush();
+    return chunks;
+}
+
+/**
+ * Split plain text at spaces (or hard, for very long words)
+ */
+function splitWords(text: string, limit: number): string[] {
+    const parts: string[] = [];
+    let rest = text.trim();
+    while (rest.length > limit) {
+        let cut = rest.lastIndexOf(" ", limit);
+        if (cut < limit / 2) cut = limit;
+        parts.push(rest.slice(0, cut).trimEnd());
+        rest = rest.slice(cut).trimStart();
+    }
+    if (rest) parts.push(rest);
+    return parts;
+}
@@ -0,0 +1,286 @@
+/**
+ * Channel Import/Export - Copy source lists between deployments (JSON / CSV)
+ * Imports are validated row by row like the /channels forms, and sources
+ * that already exist are left untouched
+ */
+
+import { getChannels, getChannel, addChannel, updateChannel, type ChannelConfig } from "./data/channels";
+import { getGroup } from "./data/groups";
+import { validateChannel } from "./scraper";
+import { validateFeed } from "./rss";
+import { validateWebSource, type WebSourceConfig } from "./web-watcher";
+
+export type TransferFormat = "json" | "csv";
+
+/**
+ * One line of the import report
+ */
+export interface ImportResult {
+    row: number;
+    username: string;
+    status: "added" | "exists" | "invalid";
+    reason?: string;
+}
+
+// Everything a source needs besides its runtime state (health, last processed...)
+type ExportedChannel = Omit<ChannelConfig, "addedAt">;
+
+const CSV_COLUMNS = [
+    "username",
+    "type",
+    "url",
+    "followDeletes",
+    "intervalMinutes",
+    "priority",
+    "account",
+    "tags",
+    "group",
+    "review",
+    "rowSelector",
+    "titleSelector",
+    "linkSelector",
+    "dateSelector",
+] as const;
+
+const TYPES: ChannelConfig["type"][] = ["public", "mtproto", "rss", "web"];
+
+/**
+ * Serialize every source
+ */
+export function exportChannels(format: TransferFormat): string {
+    const channels: ExportedChannel[] = getChannels().map(({ addedAt, ...channel }) => channel);
+
+    if (format === "json") {
+        return JSON.stringify(channels, null, 2);
+    }
+
+    const rows = channels.map((c) => {
+        const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+            username: c.username,
+            type: c.type,
+            url: c.url,
+            followDeletes: c.followDeletes,
+            intervalMinutes: c.intervalMinutes,
+            priority: c.priority,
+            account: c.account,
+            tags: c.tags?.join(";"),
+            group: c.group,
+            review: c.review,
+            rowSelector: c.web?.rowSelector,
+            titleSelector: c.web?.titleSelector,
+            linkSelector: c.web?.linkSelector,
+            dateSelector: c.web?.dateSelector,
+        };
+        return CSV_COLUMNS.map((col) => csvCell(values[col]));
+    });
+
+    return [CSV_COLUMNS.join(","), ...rows.map((r) => r.join(","))].join("\n") + "\n";
+}
+
+/**
+ * Parse an export back into channel entries (throws on malformed input)
+ */
+export function parseImport(text: string, format: TransferFormat): ExportedChannel[] {
+    if (format === "json") {
+        const data = JSON.parse(text);
+        if (!Array.isArray(data)) throw new Error("Expected a JSON array of channels");
+        return data;
+    }
+
+    const [header, ...rows] = parseCsv(text);
+    if (!header?.includes("username")) throw new Error('CSV needs a header row with a "username" column');
+
+    return rows.map((cells) => {
+        const get = (col: string) => cells[header.indexOf(col)]?.trim() || undefined;
+        const rowSelector = get("rowSelector");
+        const tags = get("tags")?.split(";").map((t) => t.trim()).filter(Boolean);
+
+        return {
+            username: get("username") || "",
+            type: (get("type") || "public") as ChannelConfig["type"],
+            url: get("url"),
+            followDeletes: get("followDeletes") === "true" || undefined,
+            intervalMinutes: parseInt(get("intervalMinutes") || "") || undefined,
+            priority: parseInt(get("priority") || "") || undefined,
+            account: get("account"),
+            tags: tags?.length ? tags : undefined,
+            group: get("group"),
+            review: get("review") === "true" || undefined,
+            web: rowSelector
+                ? {
+                    rowSelector,
+                    titleSelector: get("titleSelector"),
+                    linkSelector: get("linkSelector"),
+                    dateSelector: get("dateSelector"),
+                }
+                : undefined,
+        };
+    });
+}
+
+/**
+ * Validate and add each entry, returning a per-row report
+ */
+export async function importChannels(entries: ExportedChannel[]): Promise<ImportResult[]> {
+    const results: ImportResult[] = [];
+
+    for (const [i, entry] of entries.entries()) {
+        const row = i + 1;
+        try {
+            results.push(await importEntry(row, entry));
+        } catch (err: any) {
+            results.push({ row, username: String(entry?.username || ""), status: "invalid", reason: err.message });
+        }
+    }
+
+    const added = results.filter((r) => r.status === "added").length;
+    console.log(`[Channels] Import: ${added} added, ${results.length - added} skipped`);
+    return results;
+}
+
+/**
+ * Check and add one entry (throws on malformed ones, e.g. a bad URL)
+ */
+async function importEntry(row: number, entry: ExportedChannel): Promise<ImportResult> {
+    const type = entry.type || "public";
+    const username = type === "public" || type === "mtproto"
+        ? String(entry.username || "").replace(/^@/, "").replace(/^https?:\/\/(t\.me|telegram\.me)\//i, "").trim()
+        : String(entry.username || (entry.url ? feedName(entry.url) : "")).trim();
+
+    if (!username) {
+        return { row, username: "", status: "invalid", reason: "Missing username / name" };
+    }
+    if (getChannel(username)) {
+        return { row, username, status: "exists" };
+    }
+
+    // Malformed settings throw here, before anything is added
+    const settings = entrySettings(entry);
+
+    const problem = await checkEntry(username, type, entry.url, entry.web);
+    if (problem) {
+        return { row, username, status: "invalid", reason: problem };
+    }
+
+    await addChannel(username, type, entry.url, entry.web);
+    await updateChannel(username, settings);
+    return { row, username, status: "added" };
+}
+
+/**
+ * Normalize an entry's optional settings (JSON imports aren't typed)
+ */
+function entrySettings(entry: ExportedChannel): Partial<ChannelConfig> {
+    const wholeNumber = (value: unknown, field: string, min = -Infinity) => {
+        if (value === undefined || value === null || value === "") return undefined;
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < min) throw new Error(`${field} must be a whole number${min > 0 ? ` from ${min}` : ""}`);
+        return n || undefined;
+    };
+
+    const rawTags: unknown = entry.tags;
+    const tags = typeof rawTags === "string" ? rawTags.split(/[;,]/)
+        : Array.isArray(rawTags) ? rawTags
+        : rawTags === undefined || rawTags === null ? []
+        : null;
+    if (!tags) throw new Error("tags must be a list");
+
+    const intervalMinutes = wholeNumber(entry.intervalMinutes, "intervalMinutes", 1);
+    const priority = wholeNumber(entry.priority, "priority");
+    const cleanTags = [...new Set(tags.map((t) => String(t).trim().toLowerCase()).filter(Boolean))];
+    const group = entry.group ? getGroup(String(entry.group)) : undefined;
+
+    return {
+        ...(entry.followDeletes ? { followDeletes: true } : {}),
+        ...(entry.review ? { review: true } : {}),
+        ...(intervalMinutes ? { intervalMinutes } : {}),
+        ...(priority ? { priority } : {}),
+        ...(entry.account ? { account: String(entry.account) } : {}),
+        ...(cleanTags.length ? { tags: cleanTags } : {}),
+        ...(group ? { group: group.name } : {}),
+    };
+}
+
+/**
+ * Same checks as adding a source by hand - returns the reason it's invalid
+ */
+async function checkEntry(
+    username: string,
+    type: ChannelConfig["type"],
+    url?: string,
+    web?: WebSourceConfig
+): Promise<string | null> {
+    if (!TYPES.includes(type)) return `Unknown type "${type}"`;
+
+    if (type === "public") {
+        const result = await validateChannel(username);
+        return result.valid ? null : result.reason || "Channel check failed";
+    }
+    if (type === "rss") {
+        if (!url) return "RSS sources need a url";
+        const result = await validateFeed(url);
+        return result.valid ? null : result.reason || "Feed check failed";
+    }
+    if (type === "web") {
+        if (!url || !web?.rowSelector) return "Website sources need a url and rowSelector";
+        const result = await validateWebSource(url, web);
+        return result.valid ? null : result.reason || "Page check failed";
+    }
+    return null; // MTProto channels are checked on the first poll
+}
+
+/**
+ * Short readable name for a feed, e.g. "example.com/news"
+ */
+export function feedName(feedUrl: string): string {
+    const { hostname, pathname } = new URL(feedUrl);
+    const path = pathname.replace(/\/(feed|rss|atom)(\.xml)?\/?$/i, "").replace(/\/+$/, "");
+    return (hostname.replace(/^www\./, "") + path).slice(0, 60);
+}
+
+function csvCell(value: unknown): string {
+    if (value === undefined || value === null) return "";
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Minimal RFC 4180 parser (quoted cells, "" escapes, CRLF)
+ */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && text[i + 1] === "\n") i++;
+            row.push(cell);
+            if (row.some((c) => c !== "")) rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += ch;
+        }
+    }
+
+    row.push(cell);
+    if (row.some((c) => c !== "")) rows.push(row);
+    return rows;
+}
@@ -5,10 +5,37 @@ import { getValue, setValue, isStorageConfigured } from "./data/storage";
 export const config = {
     botToken: process.env.BOT_TOKEN || "",
     channelId: process.env.CHANNEL_ID || "",
+    // Chat that receives operational alerts (sources going dark etc.)
+    adminChatId: process.env.ADMIN_CHAT_ID || "",
+    // Chat that receives drafts from sources with review on (defaults to the admin chat)
+    reviewChatId: process.env.REVIEW_CHAT_ID || process.env.ADMIN_CHAT_ID || "",
     cronSchedule: process.env.CRON_SCHEDULE || "*/5 * * * *",
+    // Max sources fetched at the same time
+    pollConcurrency: parseInt(process.env.POLL_CONCURRENCY || "2"),
     includeSource: process.env.INCLUDE_SOURCE !== "false",
+    // Outbound queue: min gap between posts, quiet hours ("23:00-07:00", in TIMEZONE), attempts before dead-lettering
+    postGapSeconds: parseInt(process.env.POST_GAP_SECONDS || "30"),
+    quietHours: process.env.QUIET_HOURS || "",
+    timezone: process.env.TIMEZONE || "Asia/Kolkata",
+    postMaxAttempts: parseInt(process.env.POST_MAX_ATTEMPTS || "5"),
     dataDir: process.env.DATA_DIR || "/tmp/data",
     mediaDir: process.env.MEDIA_DIR || "/tmp/media",
+    // Web preview pagination (older pages are walked until last processed ID)
+    maxScrapePages: parseInt(process.env.MAX_SCRAPE_PAGES || "5"),
+    maxBackfillPages: parseInt(process.env.MAX_BACKFILL_PAGES || "50"),
+    pageDelayMs: parseInt(process.env.PAGE_DELAY_MS || "1000"),
+    // Shared HTTP client (scraping and downloads)
+    httpTimeoutMs: parseInt(process.env.HTTP_TIMEOUT_MS || "15000"),
+    httpRetries: parseInt(process.env.HTTP_RETRIES || "3"),
+    hostIntervalMs: parseInt(process.env.HTTP_HOST_INTERVAL_MS || "1000"),
+    httpProxies: (process.env.HTTP_PROXIES || "").split(",").map(p => p.trim()).filter(Boolean),
+    // Real-time MTProto updates instead of cron polling for mtproto channels
+    realtimeMode: process.env.MTPROTO_REALTIME !== "false",
+    logLevel: (process.env.LOG_LEVEL || "info").toLowerCase(),
+    // Largest MTProto file we download (Bot API uploads are capped at 50 MB)
+    maxDownloadMb: parseInt(process.env.MTPROTO_MAX_DOWNLOAD_MB || "50"),
+    // Largest video downloaded for reposting (over 50 MB is uploaded via MTProto)
+    maxVideoMb: parseInt(process.env.MAX_VIDEO_MB || "200"),
 };
 
 // Ensure directories exist
@@ -45,8 +72,13 @@ export function getLastProcessed(): Record<string, string> {
 
 /**
  * Set last processed for a channel (async save to Supabase)
+ * Never moves backwards, so backfilling old ranges doesn't cause reposts
  */
 export async function setLastProcessed(channel: string, messageId: string): Promise<void> {
+    const current = lastProcessedCache[channel];
+    // Only numeric IDs are ordered - RSS GUIDs just replace the marker
+    if (current && /^\d+$/.test(messageId) && /^\d+$/.test(current) && parseInt(messageId) <= parseInt(current)) return;
+
     lastProcessedCache[channel] = messageId;
 
     if (isStorageConfigured()) {
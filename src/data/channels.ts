@@ -3,11 +3,21 @@
  */
 
 import { getValue, setValue, isStorageConfigured } from "./storage";
+import type { WebSourceConfig } from "../web-watcher";
 
 export interface ChannelConfig {
     username: string;
-    type: "public" | "mtproto";  // public = web scrape, mtproto = session
+    type: "public" | "mtproto" | "rss" | "web";  // public = web scrape, mtproto = session, rss = feed, web = page watcher
+    url?: string;                // Feed / page URL (rss and web)
+    web?: WebSourceConfig;       // Row and field selectors (web only)
     addedAt: string;
+    followDeletes?: boolean;     // Delete our repost when the source deletes it
+    intervalMinutes?: number;    // Own polling cadence (unset = CRON_SCHEDULE)
+    priority?: number;           // Higher is fetched and posted first (default 0)
+    account?: string;            // MTProto account to read with (mtproto only, unset = any)
+    tags?: string[];             // Free-form labels ("official", "aggregator"...)
+    group?: string;              // Channel group with shared settings (data/groups)
+    review?: boolean;            // Send AI drafts for approval instead of posting
 }
 
 let channelsCache: ChannelConfig[] = [];
@@ -40,6 +50,13 @@ export function getChannels(): ChannelConfig[] {
     return channelsCache;
 }
 
+/**
+ * Get a single channel's config
+ */
+export function getChannel(username: string): ChannelConfig | undefined {
+    return channelsCache.find(c => c.username.toLowerCase() === username.toLowerCase());
+}
+
 /**
  * Get channels by type
  */
@@ -51,10 +68,23 @@ export function getMTProtoChannels(): string[] {
     return channelsCache.filter(c => c.type === "mtproto").map(c => c.username);
 }
 
+export function getRssFeeds(): ChannelConfig[] {
+    return channelsCache.filter(c => c.type === "rss" && c.url);
+}
+
+export function getWebSources(): ChannelConfig[] {
+    return channelsCache.filter(c => c.type === "web" && c.url && c.web);
+}
+
 /**
  * Add a channel
  */
-export async function addChannel(username: string, type: "public" | "mtproto"): Promise<boolean> {
+export async function addChannel(
+    username: string,
+    type: ChannelConfig["type"],
+    url?: string,
+    web?: WebSourceConfig
+): Promise<boolean> {
     // Clean username (remove @ and t.me/ prefix)
     username = username.replace(/^@/, "").replace(/^https?:\/\/(t\.me|telegram\.me)\//i, "").trim();
 
@@ -69,6 +99,8 @@ export async function addChannel(username: string, type: "public" | "mtproto"):
         username,
         type,
         addedAt: new Date().toISOString(),
+        ...(url ? { url } : {}),
+        ...(web ? { web } : {}),
     });
 
     if (isStorageConfigured()) {
@@ -79,6 +111,26 @@ export async function addChannel(username: string, type: "public" | "mtproto"):
     return true;
 }
 
+/**
+ * Update per-channel settings
+ */
+export async function updateChannel(
+    username: string,
+    changes: Partial<Omit<ChannelConfig, "username" | "addedAt">>
+): Promise<boolean> {
+    const channel = getChannel(username);
+    if (!channel) return false;
+
+    Object.assign(channel, changes);
+
+    if (isStorageConfigured()) {
+        await setValue("channels", channelsCache);
+    }
+
+    console.log(`[Channels] Updated @${channel.username}`);
+    return true;
+}
+
 /**
  * Remove a channel
  */
@@ -1,15 +1,18 @@
 /**
  * Content Tracker - Prevents duplicate posts using AI + Supabase storage
+ * Tracked per target channel: the same news can go out once in each target
  */
 
 import { getValue, setValue, isStorageConfigured } from "./storage";
 import { aiConfig } from "../ai-config";
+import { config } from "../config";
 
 interface PostedContent {
     summary: string;
     hash: string;
     sourceChannel: string;
     originalId: string;
+    chatId?: string;       // Target it was posted in (missing = CHANNEL_ID)
     postedAt: string;
 }
 
@@ -71,9 +74,14 @@ async function generateSummary(text: string): Promise<string> {
 }
 
 /**
- * Check for duplicates using AI
+ * Check for duplicates in one target using AI
  */
-export async function isDuplicate(text: string, imageCount: number, imageUrls: string[] = []): Promise<{ isDupe: boolean; reason?: string }> {
+export async function isDuplicate(
+    text: string,
+    imageCount: number,
+    imageUrls: string[] = [],
+    chatId: string = config.channelId
+): Promise<{ isDupe: boolean; reason?: string }> {
     if (!text.trim() && imageCount === 0) return { isDupe: false };
 
     // Include image identifiers in hash for better image-based duplicate detection
@@ -88,19 +96,21 @@ export async function isDuplicate(text: string, imageCount: number, imageUrls: s
     const contentToHash = `${text}::${imageFingerprint}`;
     const currentHash = hashContent(contentToHash);
 
+    const targetPosts = postsCache.filter((p) => (p.chatId || config.channelId) === chatId);
+
     // Exact hash match
-    const exactMatch = postsCache.find((p) => p.hash === currentHash);
+    const exactMatch = targetPosts.find((p) => p.hash === currentHash);
     if (exactMatch) {
         return { isDupe: true, reason: `Exact match from @${exactMatch.sourceChannel}` };
     }
 
-    if (postsCache.length === 0) return { isDupe: false };
+    if (targetPosts.length === 0) return { isDupe: false };
 
     const MISTRAL_API_KEY = process.env.MISTRAL_API_KEY;
     if (!MISTRAL_API_KEY) return { isDupe: false };
 
     // Send last 20 summaries to AI
-    const recentPosts = postsCache.slice(-20);
+    const recentPosts = targetPosts.slice(-20);
     const summariesList = recentPosts.map((p, i) => `${i + 1}. [${p.sourceChannel}] ${p.summary}`).join("\n");
 
     console.log(`[Dedup] Checking against ${recentPosts.length} recent posts...`);
@@ -156,9 +166,15 @@ export async function isDuplicate(text: string, imageCount: number, imageUrls: s
 }
 
 /**
- * Record a post
+ * Record a post in a target
  */
-export async function recordPost(text: string, sourceChannel: string, originalId: string, imageUrls: string[] = []): Promise<void> {
+export async function recordPost(
+    text: string,
+    sourceChannel: string,
+    originalId: string,
+    imageUrls: string[] = [],
+    chatId: string = config.channelId
+): Promise<void> {
     const summary = await generateSummary(text);
 
     // Include image identifiers in hash (consistent with isDuplicate)
@@ -177,6 +193,7 @@ export async function recordPost(text: string, sourceChannel: string, originalId
         hash: hashContent(contentToHash),
         sourceChannel,
         originalId,
+        chatId,
         postedAt: new Date().toISOString(),
     });
 
@@ -190,5 +207,5 @@ export async function recordPost(text: string, sourceChannel: string, originalId
         await setValue("posted_content", postsCache);
     }
 
-    console.log(`[Dedup] Recorded: "${summary}"`);
+    console.log(`[Dedup] Recorded for ${chatId}: "${summary}"`);
 }
@@ -0,0 +1,96 @@
+/**
+ * Channel Groups - Shared settings for a set of sources
+ * A source's own settings win over its group's, which win over the env defaults
+ */
+
+import { config } from "../config";
+import { getValue, setValue, isStorageConfigured } from "./storage";
+import { getChannel } from "./channels";
+
+export interface ChannelGroup {
+    name: string;
+    targetChannel?: string;    // Post here instead of CHANNEL_ID
+    promptVariant?: string;    // Extra AI rules (key of aiConfig.promptVariants)
+    includeSource?: boolean;   // Overrides INCLUDE_SOURCE
+    intervalMinutes?: number;  // Polling cadence for members without their own
+    review?: boolean;          // Members' drafts need approval (review.ts)
+}
+
+/**
+ * Effective settings for one source
+ */
+export interface SourceSettings {
+    targetChannel: string;
+    promptVariant?: string;
+    includeSource: boolean;
+    intervalMinutes?: number;
+    review: boolean;
+}
+
+let groupsCache: ChannelGroup[] = [];
+
+/**
+ * Load groups from Supabase (call on startup)
+ */
+export async function loadGroups(): Promise<void> {
+    if (isStorageConfigured()) {
+        groupsCache = await getValue<ChannelGroup[]>("channel_groups", []);
+        console.log("[Groups] Loaded", groupsCache.length, "groups");
+    }
+}
+
+export function getGroups(): ChannelGroup[] {
+    return groupsCache;
+}
+
+export function getGroup(name: string): ChannelGroup | undefined {
+    return groupsCache.find(g => g.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Create or replace a group
+ */
+export async function saveGroup(group: ChannelGroup): Promise<void> {
+    const idx = groupsCache.findIndex(g => g.name.toLowerCase() === group.name.toLowerCase());
+    if (idx === -1) {
+        groupsCache.push(group);
+    } else {
+        groupsCache[idx] = group;
+    }
+
+    if (isStorageConfigured()) {
+        await setValue("channel_groups", groupsCache);
+    }
+    console.log(`[Groups] Saved "${group.name}"`);
+}
+
+/**
+ * Delete a group (members fall back to the defaults)
+ */
+export async function removeGroup(name: string): Promise<boolean> {
+    const idx = groupsCache.findIndex(g => g.name.toLowerCase() === name.toLowerCase());
+    if (idx === -1) return false;
+
+    groupsCache.splice(idx, 1);
+    if (isStorageConfigured()) {
+        await setValue("channel_groups", groupsCache);
+    }
+    console.log(`[Groups] Removed "${name}"`);
+    return true;
+}
+
+/**
+ * Resolve a source's settings: channel > group > env
+ */
+export function getSourceSettings(channel: string): SourceSettings {
+    const source = getChannel(channel);
+    const group = source?.group ? getGroup(source.group) : undefined;
+
+    return {
+        targetChannel: group?.targetChannel || config.channelId,
+        promptVariant: group?.promptVariant,
+        includeSource: group?.includeSource ?? config.includeSource,
+        intervalMinutes: source?.intervalMinutes || group?.intervalMinutes,
+        review: Boolean(source?.review || group?.review),
+    };
+}
@@ -5,10 +5,49 @@ export { getValue, setValue, isStorageConfigured } from "./storage";
 export {
     loadChannels,
     getChannels,
+    getChannel,
     getPublicChannels,
     getMTProtoChannels,
+    getRssFeeds,
+    getWebSources,
     addChannel,
+    updateChannel,
     removeChannel,
     type ChannelConfig
 } from "./channels";
 export { loadPostedContent, isDuplicate, recordPost } from "./content-tracker";
+export {
+    loadGroups,
+    getGroups,
+    getGroup,
+    saveGroup,
+    removeGroup,
+    getSourceSettings,
+    type ChannelGroup,
+    type SourceSettings
+} from "./groups";
+export {
+    loadRouting,
+    getTargets,
+    getTarget,
+    saveTarget,
+    removeTarget,
+    getRules,
+    saveRule,
+    removeRule,
+    resolveRoutes,
+    type Target,
+    type RoutingRule,
+    type Route
+} from "./routing";
+export { loadSecrets, getSecret, setSecret, deleteSecret, isSecretsConfigured } from "./secrets";
+export {
+    loadPostMap,
+    recordMapping,
+    findMapping,
+    findMappings,
+    getChannelMappings,
+    updateMapping,
+    removeMapping,
+    type PostMapping
+} from "./post-map";
@@ -0,0 +1,109 @@
+/**
+ * Post Map - Links source messages to the posts we published for them
+ * Used to follow source edits and deletions
+ */
+
+import { getValue, setValue, isStorageConfigured } from "./storage";
+
+export interface PostMapping {
+    channel: string;
+    sourceId: string;     // Message ID as tracked by lastProcessed
+    sourceIds: string[];  // All source IDs (album parts)
+    sourceHash: string;   // Hash of the source text, to detect edits
+    chatId: string;
+    messageIds: number[];
+    kind: "text" | "caption" | "poll";
+    postedAt: string;
+    editedAt?: string;
+}
+
+const MAX_MAPPINGS = 500;
+
+// In-memory cache
+let mappingsCache: PostMapping[] = [];
+
+/**
+ * Load mappings from Supabase (call on startup)
+ */
+export async function loadPostMap(): Promise<void> {
+    if (isStorageConfigured()) {
+        mappingsCache = await getValue<PostMapping[]>("post_map", []);
+        console.log("[PostMap] Loaded", mappingsCache.length, "mappings from Supabase");
+    }
+}
+
+/**
+ * Hash source text for edit detection
+ */
+export function hashSource(text: string): string {
+    const normalized = text.replace(/\s+/g, " ").trim();
+    let hash = 0;
+    for (let i = 0; i < normalized.length; i++) {
+        hash = ((hash << 5) - hash) + normalized.charCodeAt(i);
+        hash = hash & hash;
+    }
+    return hash.toString(36);
+}
+
+/**
+ * Record a published post (one mapping per target it went to)
+ */
+export async function recordMapping(mapping: PostMapping): Promise<void> {
+    mappingsCache = mappingsCache.filter(
+        (m) => !(m.channel === mapping.channel && m.sourceId === mapping.sourceId && m.chatId === mapping.chatId)
+    );
+    mappingsCache.push(mapping);
+
+    if (mappingsCache.length > MAX_MAPPINGS) {
+        mappingsCache = mappingsCache.slice(-MAX_MAPPINGS);
+    }
+
+    await save();
+}
+
+/**
+ * Find the mapping for a source message (any album part matches)
+ */
+export function findMapping(channel: string, sourceId: string): PostMapping | undefined {
+    return mappingsCache.find(
+        (m) => m.channel === channel && (m.sourceId === sourceId || m.sourceIds.includes(sourceId))
+    );
+}
+
+/**
+ * Every target's mapping for a source message
+ */
+export function findMappings(channel: string, sourceId: string): PostMapping[] {
+    return mappingsCache.filter(
+        (m) => m.channel === channel && (m.sourceId === sourceId || m.sourceIds.includes(sourceId))
+    );
+}
+
+/**
+ * Get all mappings for a channel
+ */
+export function getChannelMappings(channel: string): PostMapping[] {
+    return mappingsCache.filter((m) => m.channel === channel);
+}
+
+/**
+ * Update a mapping after an edit
+ */
+export async function updateMapping(mapping: PostMapping, changes: Partial<PostMapping>): Promise<void> {
+    Object.assign(mapping, changes);
+    await save();
+}
+
+/**
+ * Remove a mapping (after the source was deleted)
+ */
+export async function removeMapping(mapping: PostMapping): Promise<void> {
+    mappingsCache = mappingsCache.filter((m) => m !== mapping);
+    await save();
+}
+
+async function save(): Promise<void> {
+    if (isStorageConfigured()) {
+        await setValue("post_map", mappingsCache);
+    }
+}
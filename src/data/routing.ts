@@ -0,0 +1,200 @@
+/**
+ * Routing - Target channels and the rules that send posts to them
+ * A rule matches when every criterion it sets matches (any value within one
+ * criterion). Posts no rule matches go to the source's default target
+ * (its group's target channel, else CHANNEL_ID).
+ */
+
+import { getValue, setValue, isStorageConfigured } from "./storage";
+import { getChannel } from "./channels";
+import { getSourceSettings } from "./groups";
+
+/**
+ * How posts are sent to a target (a rule's profile overrides its targets')
+ */
+export interface PublishProfile {
+    silent?: boolean;          // disable_notification
+    protectContent?: boolean;  // No forwarding / saving
+    pinKeywords?: string[];    // Pin posts mentioning any of these ("result", "admit card"...)
+    footer?: string;           // Replaces "📢 from @channel": {source}, {channel}, {link}, {date}
+    buttons?: boolean;         // "Download PDF" / "Official link" buttons from the post's links
+}
+
+export interface Target {
+    name: string;
+    chatId: string;            // @username or -100... ID
+    includeSource?: boolean;   // Overrides the group / INCLUDE_SOURCE
+    profile?: PublishProfile;
+}
+
+export interface RoutingRule {
+    id: string;
+    sources?: string[];        // Source usernames
+    tags?: string[];           // Source tags
+    keywords?: string[];       // Case-insensitive, matched in the post text
+    categories?: string[];     // AI-assigned category (aiConfig.categories)
+    targets: string[];         // Target names
+    profile?: PublishProfile;  // Overrides the targets' profiles for posts this rule sends
+}
+
+/**
+ * Where one post goes
+ */
+export interface Route {
+    chatId: string;
+    includeSource: boolean;
+    profile?: PublishProfile;
+}
+
+let targetsCache: Target[] = [];
+let rulesCache: RoutingRule[] = [];
+
+/**
+ * Load targets and rules from Supabase (call on startup)
+ */
+export async function loadRouting(): Promise<void> {
+    if (isStorageConfigured()) {
+        targetsCache = await getValue<Target[]>("targets", []);
+        rulesCache = await getValue<RoutingRule[]>("routing_rules", []);
+        console.log("[Routing] Loaded", targetsCache.length, "targets and", rulesCache.length, "rules");
+    }
+}
+
+export function getTargets(): Target[] {
+    return targetsCache;
+}
+
+export function getTarget(name: string): Target | undefined {
+    return targetsCache.find(t => t.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Create or replace a target
+ */
+export async function saveTarget(target: Target): Promise<void> {
+    const idx = targetsCache.findIndex(t => t.name.toLowerCase() === target.name.toLowerCase());
+    if (idx === -1) {
+        targetsCache.push(target);
+    } else {
+        targetsCache[idx] = target;
+    }
+
+    if (isStorageConfigured()) {
+        await setValue("targets", targetsCache);
+    }
+    console.log(`[Routing] Saved target "${target.name}" (${target.chatId})`);
+}
+
+/**
+ * Delete a target and drop it from every rule
+ */
+export async function removeTarget(name: string): Promise<boolean> {
+    const target = getTarget(name);
+    if (!target) return false;
+
+    targetsCache = targetsCache.filter(t => t !== target);
+    for (const rule of rulesCache) {
+        rule.targets = rule.targets.filter(t => t.toLowerCase() !== name.toLowerCase());
+    }
+
+    if (isStorageConfigured()) {
+        await setValue("targets", targetsCache);
+        await setValue("routing_rules", rulesCache);
+    }
+    console.log(`[Routing] Removed target "${name}"`);
+    return true;
+}
+
+export function getRules(): RoutingRule[] {
+    return rulesCache;
+}
+
+/**
+ * Create or replace a rule (matched by id)
+ */
+export async function saveRule(rule: RoutingRule): Promise<void> {
+    const idx = rulesCache.findIndex(r => r.id === rule.id);
+    if (idx === -1) {
+        rulesCache.push(rule);
+    } else {
+        rulesCache[idx] = rule;
+    }
+
+    if (isStorageConfigured()) {
+        await setValue("routing_rules", rulesCache);
+    }
+    console.log(`[Routing] Saved rule ${rule.id} → ${rule.targets.join(", ")}`);
+}
+
+export async function removeRule(id: string): Promise<boolean> {
+    const before = rulesCache.length;
+    rulesCache = rulesCache.filter(r => r.id !== id);
+    if (rulesCache.length === before) return false;
+
+    if (isStorageConfigured()) {
+        await setValue("routing_rules", rulesCache);
+    }
+    return true;
+}
+
+/**
+ * Whether any rule depends on the AI category
+ */
+export function usesCategories(): boolean {
+    return rulesCache.some(r => r.categories?.length);
+}
+
+/**
+ * Resolve the targets for a post
+ * Without a category (before the AI has run) category rules count as matching
+ * and, unless another rule matches for sure, the default target is added too,
+ * which gives every target the post could end up in
+ */
+export function resolveRoutes(channel: string, text: string, category?: string | null): Route[] {
+    const source = getChannel(channel);
+    const settings = getSourceSettings(channel);
+    const lowerText = text.toLowerCase();
+
+    const matched = rulesCache.filter(rule =>
+        (!rule.sources?.length || rule.sources.some(s => s.toLowerCase() === channel.toLowerCase())) &&
+        (!rule.tags?.length || rule.tags.some(t => source?.tags?.includes(t.toLowerCase()))) &&
+        (!rule.keywords?.length || rule.keywords.some(k => lowerText.includes(k.toLowerCase()))) &&
+        (!rule.categories?.length || category === undefined ||
+            rule.categories.some(c => c.toLowerCase() === category?.toLowerCase()))
+    );
+
+    const routes = new Map<string, Route>();
+    for (const rule of matched) {
+        for (const name of rule.targets) {
+            const target = getTarget(name);
+            if (!target) continue;
+            routes.set(target.chatId, {
+                chatId: target.chatId,
+                includeSource: target.includeSource ?? settings.includeSource,
+                profile: mergeProfiles(routes.get(target.chatId)?.profile ?? target.profile, rule.profile),
+            });
+        }
+    }
+
+    // A target defined for the default chat still brings its profile
+    const fallbackTarget = targetsCache.find(t => t.chatId === settings.targetChannel);
+    const fallback: Route = {
+        chatId: settings.targetChannel,
+        includeSource: fallbackTarget?.includeSource ?? settings.includeSource,
+        profile: fallbackTarget?.profile,
+    };
+
+    if (routes.size === 0) return [fallback];
+
+    // Every match may still fall away once the AI picks a category
+    const certain = matched.some(rule => !rule.categories?.length);
+    if (category === undefined && !certain && !routes.has(fallback.chatId)) {
+        routes.set(fallback.chatId, fallback);
+    }
+    return [...routes.values()];
+}
+
+function mergeProfiles(base?: PublishProfile, override?: PublishProfile): PublishProfile | undefined {
+    if (!base || !override) return override || base;
+    return { ...base, ...override };
+}
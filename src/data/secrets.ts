@@ -0,0 +1,135 @@
+/**
+ * Secrets - Credentials (MTProto sessions) encrypted before they reach Supabase
+ * AES-256-GCM with a key from SECRETS_KEY. Keys listed in SECRETS_OLD_KEYS
+ * can still decrypt; anything under an old key is re-encrypted on load.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { getValue, setValue, isStorageConfigured } from "./storage";
+
+interface SecretKey {
+    id: string;   // Short fingerprint stored with each value, picks the key on decrypt
+    key: Buffer;
+}
+
+const FORMAT = "v1";
+
+const currentKey = deriveKey(process.env.SECRETS_KEY || "");
+const oldKeys = (process.env.SECRETS_OLD_KEYS || "")
+    .split(",")
+    .map((k) => deriveKey(k.trim()))
+    .filter((k): k is SecretKey => k !== null);
+
+// name -> encrypted value ("v1:<key id>:<iv>:<tag>:<data>")
+let secretsCache: Record<string, string> = {};
+
+/**
+ * Secrets can only be persisted with both a key and Supabase
+ */
+export function isSecretsConfigured(): boolean {
+    return Boolean(currentKey) && isStorageConfigured();
+}
+
+/**
+ * Load secrets from Supabase (call on startup) and rotate old-key values
+ */
+export async function loadSecrets(): Promise<void> {
+    if (!isSecretsConfigured()) return;
+
+    secretsCache = await getValue<Record<string, string>>("secrets", {});
+
+    let rotated = 0;
+    for (const [name, sealed] of Object.entries(secretsCache)) {
+        if (sealed.split(":")[1] === currentKey!.id) continue;
+
+        const value = open(name, sealed);
+        if (value === null) continue;
+        secretsCache[name] = seal(name, value);
+        rotated++;
+    }
+
+    if (rotated > 0) {
+        await setValue("secrets", secretsCache);
+        console.log(`[Secrets] Re-encrypted ${rotated} secret(s) with the current key`);
+    }
+    console.log("[Secrets] Loaded", Object.keys(secretsCache).length, "secrets");
+}
+
+/**
+ * Decrypted value, or null if missing / undecryptable
+ */
+export function getSecret(name: string): string | null {
+    const sealed = secretsCache[name];
+    return sealed ? open(name, sealed) : null;
+}
+
+/**
+ * Names of stored secrets starting with a prefix
+ */
+export function listSecrets(prefix: string = ""): string[] {
+    return Object.keys(secretsCache).filter((name) => name.startsWith(prefix));
+}
+
+/**
+ * Encrypt and save a secret - false when secrets aren't configured
+ */
+export async function setSecret(name: string, value: string): Promise<boolean> {
+    if (!isSecretsConfigured()) return false;
+
+    secretsCache[name] = seal(name, value);
+    await setValue("secrets", secretsCache);
+    return true;
+}
+
+export async function deleteSecret(name: string): Promise<void> {
+    if (!(name in secretsCache)) return;
+
+    delete secretsCache[name];
+    if (isSecretsConfigured()) {
+        await setValue("secrets", secretsCache);
+    }
+}
+
+/**
+ * Encrypt with the current key (the name is authenticated too, so values
+ * can't be swapped between secrets)
+ */
+function seal(name: string, value: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", currentKey!.key, iv);
+    cipher.setAAD(Buffer.from(name));
+    const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+
+    return [FORMAT, currentKey!.id, iv.toString("base64"), cipher.getAuthTag().toString("base64"), data.toString("base64")].join(":");
+}
+
+function open(name: string, sealed: string): string | null {
+    const [format, keyId, iv, tag, data] = sealed.split(":");
+    const secretKey = [currentKey, ...oldKeys].find((k) => k?.id === keyId);
+
+    if (format !== FORMAT || !secretKey || !iv || !tag || data === undefined) {
+        console.error(`[Secrets] Can't decrypt "${name}" - its key isn't in SECRETS_KEY / SECRETS_OLD_KEYS`);
+        return null;
+    }
+
+    try {
+        const decipher = createDecipheriv("aes-256-gcm", secretKey.key, Buffer.from(iv, "base64"));
+        decipher.setAAD(Buffer.from(name));
+        decipher.setAuthTag(Buffer.from(tag, "base64"));
+        return Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf8");
+    } catch {
+        console.error(`[Secrets] Can't decrypt "${name}" - wrong key or tampered value`);
+        return null;
+    }
+}
+
+/**
+ * 256-bit key from any passphrase (use a long random one)
+ */
+function deriveKey(secret: string): SecretKey | null {
+    if (!secret) return null;
+    return {
+        id: createHash("sha256").update(`key-id:${secret}`).digest("hex").slice(0, 8),
+        key: createHash("sha256").update(secret).digest(),
+    };
+}
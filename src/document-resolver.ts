@@ -0,0 +1,158 @@
+/**
+ * Document Resolver - Gets the real bytes of a message's document
+ * The web preview only links documents to their t.me post, so those are
+ * fetched through the MTProto session. Every file is checked by content
+ * type and magic bytes so an HTML page is never uploaded as a "PDF"
+ */
+
+import { existsSync, openSync, readSync, closeSync, unlinkSync } from "fs";
+import { extname } from "path";
+import { config } from "./config";
+import { downloadToFile } from "./http-client";
+import { isLocalMedia, mediaPath } from "./media-store";
+import { downloadMessageMedia, getAuthStatus } from "./mtproto-scraper";
+
+// Extension -> accepted file signatures
+const SIGNATURES: Record<string, number[][]> = {
+    ".pdf": [[0x25, 0x50, 0x44, 0x46]], // %PDF
+    ".zip": [[0x50, 0x4b, 0x03, 0x04]],
+    ".docx": [[0x50, 0x4b, 0x03, 0x04]],
+    ".xlsx": [[0x50, 0x4b, 0x03, 0x04]],
+    ".pptx": [[0x50, 0x4b, 0x03, 0x04]],
+    ".apk": [[0x50, 0x4b, 0x03, 0x04]],
+    ".doc": [[0xd0, 0xcf, 0x11, 0xe0]],
+    ".xls": [[0xd0, 0xcf, 0x11, 0xe0]],
+    ".ppt": [[0xd0, 0xcf, 0x11, 0xe0]],
+    ".rar": [[0x52, 0x61, 0x72, 0x21]],
+    ".7z": [[0x37, 0x7a, 0xbc, 0xaf]],
+    ".png": [[0x89, 0x50, 0x4e, 0x47]],
+    ".jpg": [[0xff, 0xd8, 0xff]],
+    ".jpeg": [[0xff, 0xd8, 0xff]],
+    ".gif": [[0x47, 0x49, 0x46, 0x38]],
+};
+
+// Extension -> MIME types servers / Telegram report for it (prefixes)
+const MIME_TYPES: Record<string, string[]> = {
+    ".pdf": ["application/pdf"],
+    ".zip": ["application/zip", "application/x-zip"],
+    ".docx": ["application/vnd.openxmlformats-officedocument"],
+    ".xlsx": ["application/vnd.openxmlformats-officedocument"],
+    ".pptx": ["application/vnd.openxmlformats-officedocument"],
+    ".apk": ["application/vnd.android.package-archive"],
+    ".doc": ["application/msword"],
+    ".xls": ["application/vnd.ms-excel"],
+    ".ppt": ["application/vnd.ms-powerpoint"],
+    ".rar": ["application/x-rar", "application/vnd.rar"],
+    ".7z": ["application/x-7z-compressed"],
+    ".png": ["image/png"],
+    ".jpg": ["image/jpeg"],
+    ".jpeg": ["image/jpeg"],
+    ".gif": ["image/gif"],
+};
+
+/**
+ * Resolve a document to a verified local file
+ * The expected type comes from the source's own file name (sourceName), not
+ * the upload name, which may be an AI rename
+ * Returns null when the real file can't be fetched - callers should
+ * fall back to a text post with a link
+ */
+export async function resolveDocument(
+    url: string,
+    filename: string,
+    channel: string,
+    sourceName: string = filename
+): Promise<string | null> {
+    const post = parsePostLink(url);
+    const ext = extname(sourceName).toLowerCase();
+    const types = MIME_TYPES[ext];
+
+    let path: string | null;
+    if (isLocalMedia(url)) {
+        path = url;
+    } else if (post) {
+        if (!getAuthStatus().authenticated) {
+            console.log(`[Docs] ${filename} is only linked (${url}) and MTProto isn't logged in`);
+            return null;
+        }
+        path = await downloadMessageMedia(post.channel || channel, post.id, filename, types);
+    } else {
+        path = await downloadDirect(url, filename, types);
+    }
+
+    if (!path) return null;
+
+    if (!looksLikeFile(path, ext)) {
+        console.warn(`[Docs] ${filename} failed the file signature check - not uploading it`);
+        if (path !== url) removeFile(path);
+        return null;
+    }
+
+    return path;
+}
+
+/**
+ * Download a direct file URL (capped at MAX_DOWNLOAD_MB), rejecting HTML
+ * and content types that don't match the expected ones
+ */
+async function downloadDirect(url: string, filename: string, types?: string[]): Promise<string | null> {
+    const path = mediaPath(`doc_${Date.now()}_${filename}`);
+    try {
+        const size = await downloadToFile(url, path, { maxBytes: config.maxDownloadMb * 1024 * 1024, types });
+        if (size === null) {
+            console.log(`[Docs] ${url} is missing, not a file or over ${config.maxDownloadMb} MB - not using it`);
+            return null;
+        }
+        return path;
+    } catch (err: any) {
+        console.error(`[Docs] Download failed for ${url}:`, err.message);
+        if (existsSync(path)) removeFile(path);
+        return null;
+    }
+}
+
+/**
+ * t.me/<channel>/<id> (and t.me/c/<id>/<msg>) post links
+ */
+function parsePostLink(url: string): { channel?: string; id: number } | null {
+    const match = url.match(/^https?:\/\/(?:t|telegram)\.me\/(?:s\/)?(c\/\d+|[\w]+)\/(\d+)/i);
+    if (!match?.[1] || !match[2]) return null;
+    return { channel: match[1].startsWith("c/") ? undefined : match[1], id: parseInt(match[2]) };
+}
+
+/**
+ * Check the first bytes against the expected signature for the extension
+ * Unknown extensions only have to not be an HTML page
+ */
+function looksLikeFile(path: string, ext: string): boolean {
+    const head = readHead(path, 16);
+    if (!head || head.length === 0) return false;
+
+    const expected = SIGNATURES[ext];
+    if (expected) {
+        return expected.some((sig) => sig.every((byte, i) => head[i] === byte));
+    }
+
+    const start = head.toString("utf8").trimStart().toLowerCase();
+    return !start.startsWith("<!doctype") && !start.startsWith("<html");
+}
+
+function readHead(path: string, bytes: number): Buffer | null {
+    if (!existsSync(path)) return null;
+    const fd = openSync(path, "r");
+    try {
+        const buffer = Buffer.alloc(bytes);
+        const read = readSync(fd, buffer, 0, bytes, 0);
+        return buffer.subarray(0, read);
+    } finally {
+        closeSync(fd);
+    }
+}
+
+function removeFile(path: string): void {
+    try {
+        unlinkSync(path);
+    } catch {
+        // ignore
+    }
+}
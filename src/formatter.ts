@@ -0,0 +1,177 @@
+/**
+ * Formatter - Converts scraped HTML, MTProto entities and AI output
+ * into the HTML subset accepted by the Telegram Bot API
+ */
+
+import * as cheerio from "cheerio";
+import type { AnyNode } from "domhandler";
+
+// Tag -> Telegram tag (everything else is unwrapped to its text)
+const TAG_MAP: Record<string, string> = {
+    b: "b",
+    strong: "b",
+    i: "i",
+    em: "i",
+    u: "u",
+    ins: "u",
+    s: "s",
+    strike: "s",
+    del: "s",
+    code: "code",
+    pre: "pre",
+    blockquote: "blockquote",
+    "tg-spoiler": "tg-spoiler",
+};
+
+// MTProto entity className -> Telegram tag
+const ENTITY_MAP: Record<string, string> = {
+    MessageEntityBold: "b",
+    MessageEntityItalic: "i",
+    MessageEntityUnderline: "u",
+    MessageEntityStrike: "s",
+    MessageEntityCode: "code",
+    MessageEntityPre: "pre",
+    MessageEntityBlockquote: "blockquote",
+    MessageEntitySpoiler: "tg-spoiler",
+    MessageEntityTextUrl: "a",
+};
+
+/**
+ * Minimal shape of an MTProto message entity
+ */
+export interface FormattingEntity {
+    className: string;
+    offset: number;
+    length: number;
+    url?: string;
+}
+
+/**
+ * Escape text for Telegram HTML
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * Convert arbitrary HTML (e.g. t.me/s message text) into Telegram HTML
+ */
+export function htmlToTelegram(html: string): string {
+    const $ = cheerio.load(html, null, false);
+    return renderNodes($.root().contents().toArray()).trim();
+}
+
+/**
+ * Sanitize AI output: keep supported tags, escape stray < and &,
+ * and turn **markdown bold** into <b> since models like to use it
+ */
+export function sanitizeHtml(text: string): string {
+    const withBold = text.replace(/\*\*(.+?)\*\*/g, "<b>$1</b>");
+    return htmlToTelegram(withBold);
+}
+
+/**
+ * Strip all markup, leaving plain text (fallback when Telegram rejects HTML)
+ */
+export function stripHtml(html: string): string {
+    const withBreaks = html.replace(/<br\s*\/?>/gi, "\n");
+    return cheerio.load(withBreaks, null, false).root().text();
+}
+
+/**
+ * Build Telegram HTML from MTProto text + entities
+ * Offsets are in UTF-16 code units, same as JS strings
+ */
+export function entitiesToHtml(text: string, entities: FormattingEntity[] = []): string {
+    const supported = entities
+        .filter((e) => ENTITY_MAP[e.className] && e.length > 0)
+        .sort((a, b) => a.offset - b.offset || b.length - a.length);
+
+    if (supported.length === 0) return escapeHtml(text);
+
+    const open: FormattingEntity[] = [];
+    let result = "";
+    let next = 0;
+
+    for (let pos = 0; pos <= text.length; pos++) {
+        // Close entities ending here (innermost first)
+        for (let i = open.length - 1; i >= 0; i--) {
+            const entity = open[i]!;
+            if (entity.offset + entity.length !== pos) continue;
+
+            // Close and reopen anything nested inside it to keep tags balanced
+            const inner = open.splice(i);
+            for (const e of [...inner].reverse()) result += closeTag(e);
+            for (const e of inner.slice(1)) {
+                result += openTag(e);
+                open.push(e);
+            }
+        }
+
+        // Open entities starting here (outermost first)
+        while (next < supported.length && supported[next]!.offset === pos) {
+            const entity = supported[next++]!;
+            result += openTag(entity);
+            open.push(entity);
+        }
+
+        if (pos < text.length) result += escapeHtml(text[pos]!);
+    }
+
+    for (const e of open.reverse()) result += closeTag(e);
+    return result;
+}
+
+function openTag(entity: FormattingEntity): string {
+    const tag = ENTITY_MAP[entity.className]!;
+    return tag === "a" ? `<a href="${escapeHtml(entity.url || "")}">` : `<${tag}>`;
+}
+
+function closeTag(entity: FormattingEntity): string {
+    return `</${ENTITY_MAP[entity.className]}>`;
+}
+
+/**
+ * Render DOM nodes into Telegram HTML
+ */
+function renderNodes(nodes: AnyNode[]): string {
+    let out = "";
+
+    for (const node of nodes) {
+        if (node.type === "text") {
+            out += escapeHtml(node.data);
+            continue;
+        }
+        if (node.type !== "tag") continue;
+
+        const name = node.name.toLowerCase();
+        const inner = renderNodes(node.children);
+        const classes = node.attribs.class || "";
+
+        if (name === "br") {
+            out += "\n";
+        } else if (name === "a") {
+            const href = node.attribs.href || "";
+            out += /^(https?:|mailto:|tg:\/\/user)/i.test(href)
+                ? `<a href="${escapeHtml(href)}">${inner}</a>`
+                : inner;
+        } else if (name === "span" && classes.includes("tg-spoiler")) {
+            out += `<tg-spoiler>${inner}</tg-spoiler>`;
+        } else if (classes.includes("emoji")) {
+            // Web preview wraps emoji in <i class="emoji"><b>😀</b></i> - keep the character only
+            out += escapeHtml(cheerio.load(node, null, false).root().text());
+        } else if (TAG_MAP[name]) {
+            out += `<${TAG_MAP[name]}>${inner}</${TAG_MAP[name]}>`;
+        } else if (name === "p" || name === "div") {
+            out += inner + "\n";
+        } else {
+            out += inner;
+        }
+    }
+
+    return out;
+}
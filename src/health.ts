@@ -0,0 +1,157 @@
+/**
+ * Channel Health - Tracks per-source fetch results, backs off failing
+ * sources instead of skipping them forever, and alerts the admin when a
+ * source goes dark (or comes back)
+ */
+
+import { sendAdminAlert } from "./bot";
+import { getValue, setValue, isStorageConfigured } from "./data/storage";
+
+export interface HealthEvent {
+    at: string;
+    ok: boolean;
+    reason?: string;
+}
+
+export interface ChannelHealth {
+    status: "ok" | "failing" | "dark";
+    lastCheck?: string;
+    lastSuccess?: string;
+    lastError?: string;
+    consecutiveFailures: number;
+    nextCheckAt?: string;    // Failing sources aren't fetched before this
+    messagesSeen: number;    // New messages collected
+    messagesSkipped: number; // Dropped as duplicate or by the AI
+    history: HealthEvent[];  // Most recent last
+}
+
+const DARK_AFTER_FAILURES = 3;
+const BASE_BACKOFF_MS = 5 * 60 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const MAX_HISTORY = 20;
+
+let healthCache: Record<string, ChannelHealth> = {};
+
+/**
+ * Load health records from Supabase (call on startup)
+ */
+export async function loadHealth(): Promise<void> {
+    if (isStorageConfigured()) {
+        healthCache = await getValue<Record<string, ChannelHealth>>("channel_health", {});
+        console.log("[Health] Loaded health for", Object.keys(healthCache).length, "sources");
+    }
+}
+
+/**
+ * Get health for one source (undefined = never checked)
+ */
+export function getChannelHealth(channel: string): ChannelHealth | undefined {
+    return healthCache[channel];
+}
+
+/**
+ * Whether a source is due for a fetch (failing sources are retried with backoff)
+ */
+export function shouldCheck(channel: string): boolean {
+    const nextCheckAt = healthCache[channel]?.nextCheckAt;
+    return !nextCheckAt || Date.now() >= Date.parse(nextCheckAt);
+}
+
+/**
+ * Record a successful fetch
+ */
+export async function recordSuccess(channel: string, newMessages: number): Promise<void> {
+    const health = getOrCreate(channel);
+    const wasDark = health.status === "dark";
+    const now = new Date().toISOString();
+
+    health.status = "ok";
+    health.lastCheck = now;
+    health.lastSuccess = now;
+    health.consecutiveFailures = 0;
+    health.nextCheckAt = undefined;
+    health.messagesSeen += newMessages;
+    pushEvent(health, { at: now, ok: true });
+
+    if (wasDark) {
+        console.log(`[Health] ✅ ${channel} recovered`);
+        await sendAdminAlert(`✅ Source ${channel} is working again`);
+    }
+
+    await save();
+}
+
+/**
+ * Record a failed fetch (error, empty page, preview disabled...)
+ */
+export async function recordFailure(channel: string, reason: string): Promise<void> {
+    const health = getOrCreate(channel);
+    const now = new Date().toISOString();
+
+    health.consecutiveFailures++;
+    health.lastCheck = now;
+    health.lastError = reason;
+    const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (health.consecutiveFailures - 1), MAX_BACKOFF_MS);
+    health.nextCheckAt = new Date(Date.now() + backoff).toISOString();
+    pushEvent(health, { at: now, ok: false, reason });
+
+    if (health.consecutiveFailures >= DARK_AFTER_FAILURES && health.status !== "dark") {
+        health.status = "dark";
+        console.log(`[Health] 🚨 ${channel} went dark: ${reason}`);
+        await sendAdminAlert(
+            `🚨 Source ${channel} went dark after ${health.consecutiveFailures} failed checks\n` +
+            `Last error: ${reason}\nLast success: ${health.lastSuccess || "never"}`
+        );
+    } else if (health.status !== "dark") {
+        health.status = "failing";
+    }
+
+    console.log(`[Health] ${channel} failed (${health.consecutiveFailures}x), next check in ${Math.round(backoff / 60000)} min`);
+    await save();
+}
+
+/**
+ * Count a collected message that was dropped (duplicate / AI skip)
+ */
+export async function recordSkipped(channel: string): Promise<void> {
+    getOrCreate(channel).messagesSkipped++;
+    await save();
+}
+
+/**
+ * Skip rate as a 0-1 fraction
+ */
+export function skipRate(health: ChannelHealth): number {
+    return health.messagesSeen > 0 ? health.messagesSkipped / health.messagesSeen : 0;
+}
+
+/**
+ * Forget a removed source
+ */
+export async function clearHealth(channel: string): Promise<void> {
+    delete healthCache[channel];
+    await save();
+}
+
+function getOrCreate(channel: string): ChannelHealth {
+    return (healthCache[channel] ||= {
+        status: "ok",
+        consecutiveFailures: 0,
+        messagesSeen: 0,
+        messagesSkipped: 0,
+        history: [],
+    });
+}
+
+function pushEvent(health: ChannelHealth, event: HealthEvent): void {
+    health.history.push(event);
+    if (health.history.length > MAX_HISTORY) {
+        health.history = health.history.slice(-MAX_HISTORY);
+    }
+}
+
+async function save(): Promise<void> {
+    if (isStorageConfigured()) {
+        await setValue("channel_health", healthCache);
+    }
+}
@@ -0,0 +1,284 @@
+/**
+ * HTTP Client - Shared fetch wrapper for scraping and downloads
+ * Timeouts, retries with jittered backoff (5xx / 429), conditional
+ * requests, rotating user agents, optional proxy pool and per-host
+ * rate limiting so t.me doesn't throttle us
+ */
+
+import { unlinkSync } from "fs";
+import { config } from "./config";
+import { debug } from "./logger";
+
+export interface HttpOptions {
+    headers?: Record<string, string>;
+    timeoutMs?: number;
+    retries?: number;
+    conditional?: boolean; // Send If-None-Match / If-Modified-Since and reuse the cached body on 304
+}
+
+export interface TextResult {
+    status: number;
+    text: string;
+    notModified: boolean;
+}
+
+const USER_AGENTS = [
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36",
+    "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:122.0) Gecko/20100101 Firefox/122.0",
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_2) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15",
+];
+
+const MAX_CACHED_BODIES = 200;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+let uaIndex = 0;
+let proxyIndex = 0;
+
+// host -> earliest time the next request may start
+const hostSlots = new Map<string, number>();
+// url -> validators + body from the last 200 response
+const conditionalCache = new Map<string, { etag?: string; lastModified?: string; body: string }>();
+
+/**
+ * GET a URL as text (throws on non-2xx after retries)
+ */
+export async function fetchText(url: string, options: HttpOptions = {}): Promise<TextResult> {
+    const cached = options.conditional ? conditionalCache.get(url) : undefined;
+    const headers: Record<string, string> = { ...options.headers };
+    if (cached?.etag) headers["If-None-Match"] = cached.etag;
+    if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+
+    const response = await request(url, { ...options, headers });
+
+    if (response.status === 304 && cached) {
+        debug("HTTP", `304 Not Modified: ${url}`);
+        return { status: 304, text: cached.body, notModified: true };
+    }
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status} for ${url}`);
+    }
+
+    const text = await response.text();
+
+    if (options.conditional) {
+        const etag = response.headers.get("etag") || undefined;
+        const lastModified = response.headers.get("last-modified") || undefined;
+        if (etag || lastModified) {
+            conditionalCache.delete(url);
+            conditionalCache.set(url, { etag, lastModified, body: text });
+            if (conditionalCache.size > MAX_CACHED_BODIES) {
+                conditionalCache.delete(conditionalCache.keys().next().value!);
+            }
+        }
+    }
+
+    return { status: response.status, text, notModified: false };
+}
+
+/**
+ * GET a URL as a buffer (downloads)
+ * Returns null when the file is missing or larger than maxBytes
+ */
+export async function fetchBuffer(
+    url: string,
+    options: HttpOptions & { maxBytes?: number } = {}
+): Promise<Buffer | null> {
+    const response = await request(url, options);
+    if (!response.ok) return null;
+
+    const length = parseInt(response.headers.get("content-length") || "0");
+    if (options.maxBytes && length > options.maxBytes) {
+        await response.body?.cancel();
+        return null;
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Whether a reported MIME type fits the expected ones
+ * HTML never does; a missing or generic type is left to the caller's own checks
+ */
+export function matchesType(contentType: string, expected?: string[]): boolean {
+    const type = contentType.split(";")[0]!.trim().toLowerCase();
+    if (type === "text/html") return false;
+    if (!expected?.length || !type || type === "application/octet-stream") return true;
+    return expected.some((t) => type.startsWith(t));
+}
+
+/**
+ * Stream a URL to disk (large files such as videos)
+ * Returns the byte count, or null when missing, larger than maxBytes or not
+ * one of the expected MIME types (HTML pages never count as a file)
+ */
+export async function downloadToFile(
+    url: string,
+    filepath: string,
+    options: HttpOptions & { maxBytes?: number; types?: string[] } = {}
+): Promise<number | null> {
+    const response = await request(url, { timeoutMs: 10 * 60 * 1000, ...options });
+    if (!response.ok) return null;
+
+    const type = response.headers.get("content-type") || "";
+    if (!matchesType(type, options.types)) {
+        console.log(`[HTTP] ${url} is ${type} - not the expected file`);
+        await response.body?.cancel();
+        return null;
+    }
+
+    const length = parseInt(response.headers.get("content-length") || "0");
+    if (options.maxBytes && length > options.maxBytes) {
+        await response.body?.cancel();
+        return null;
+    }
+
+    // Counted while streaming - without a Content-Length the size is only known here
+    const writer = Bun.file(filepath).writer();
+    let written = 0;
+    let tooLarge = false;
+    try {
+        for await (const chunk of response.body ?? []) {
+            written += chunk.byteLength;
+            if (options.maxBytes && written > options.maxBytes) {
+                tooLarge = true;
+                break; // Cancels the rest of the body
+            }
+            writer.write(chunk);
+        }
+    } catch (err) {
+        await writer.end();
+        unlinkSync(filepath); // Don't leave a partial file behind
+        throw err;
+    }
+    await writer.end();
+
+    if (tooLarge) {
+        unlinkSync(filepath);
+        return null;
+    }
+    return written;
+}
+
+/**
+ * Low-level GET with rate limiting, timeout, UA/proxy rotation and retries
+ * Resolves with the final response (which may still be a 4xx/5xx)
+ */
+export async function request(url: string, options: HttpOptions = {}): Promise<Response> {
+    const retries = options.retries ?? config.httpRetries;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+        await waitForHost(url);
+
+        const proxy = nextProxy();
+        try {
+            const response = await fetch(url, {
+                headers: { "User-Agent": nextUserAgent(), ...options.headers },
+                signal: AbortSignal.timeout(options.timeoutMs ?? config.httpTimeoutMs),
+                ...(proxy ? { proxy } : {}),
+            });
+
+            if ((response.status === 429 || response.status >= 500) && attempt < retries) {
+                const delay = retryDelay(attempt, response.headers.get("retry-after"));
+                console.log(`[HTTP] ${response.status} from ${hostOf(url)} - retrying in ${Math.round(delay / 1000)}s`);
+                await response.body?.cancel();
+                if (response.status === 429) pushBackHost(url, delay);
+                await sleep(delay);
+                continue;
+            }
+
+            return response;
+        } catch (err: any) {
+            lastError = err;
+            if (attempt < retries) {
+                const delay = retryDelay(attempt, null);
+                console.log(`[HTTP] ${err.name === "TimeoutError" ? "Timeout" : err.message} for ${hostOf(url)} - retrying in ${Math.round(delay / 1000)}s`);
+                await sleep(delay);
+            }
+        }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error(`Request failed: ${url}`);
+}
+
+/**
+ * Resolve a link against the page or feed it's on
+ * Empty for anchors, javascript: links and anything that isn't a valid URL
+ */
+export function resolveUrl(url: string, base: string): string {
+    if (!url || url.startsWith("javascript:") || url.startsWith("#")) return "";
+    try {
+        return new URL(url, base).toString();
+    } catch {
+        return "";
+    }
+}
+
+/**
+ * Last path segment of a URL (decoded), for document titles
+ */
+export function fileNameOf(url: string, fallback: string = "document"): string {
+    const name = url.split("?")[0]!.split("/").pop() || fallback;
+    try {
+        return decodeURIComponent(name);
+    } catch {
+        return name;
+    }
+}
+
+/**
+ * Wait until this host's next request slot (HTTP_HOST_INTERVAL_MS apart)
+ */
+async function waitForHost(url: string): Promise<void> {
+    const host = hostOf(url);
+    const now = Date.now();
+    const slot = Math.max(now, hostSlots.get(host) || 0);
+    hostSlots.set(host, slot + config.hostIntervalMs);
+
+    if (slot > now) {
+        debug("HTTP", `Rate limit: waiting ${slot - now}ms for ${host}`);
+        await sleep(slot - now);
+    }
+}
+
+/**
+ * After a 429, hold every request to that host back as well
+ */
+function pushBackHost(url: string, delayMs: number): void {
+    const host = hostOf(url);
+    hostSlots.set(host, Math.max(hostSlots.get(host) || 0, Date.now() + delayMs));
+}
+
+/**
+ * Exponential backoff with full jitter, honoring Retry-After (seconds)
+ */
+function retryDelay(attempt: number, retryAfter: string | null): number {
+    const seconds = retryAfter ? parseInt(retryAfter) : NaN;
+    if (!isNaN(seconds)) return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS);
+
+    const base = Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS);
+    return base / 2 + Math.random() * (base / 2);
+}
+
+function nextUserAgent(): string {
+    return USER_AGENTS[uaIndex++ % USER_AGENTS.length]!;
+}
+
+function nextProxy(): string | undefined {
+    if (config.httpProxies.length === 0) return undefined;
+    return config.httpProxies[proxyIndex++ % config.httpProxies.length];
+}
+
+function hostOf(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch {
+        return url;
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
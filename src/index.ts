@@ -1,15 +1,25 @@
 /**
  * Telegram Poster Bot - Entry Point
  */
-import cron from "node-cron";
 import { config, ensureDirectories, validateConfig, loadLastProcessed } from "./config";
-import { runPoster } from "./poster";
+import { startRealtimeMode } from "./poster";
+import { startScheduler, pollNow } from "./scheduler";
 import { initBot } from "./bot";
 import { validateChannels } from "./scraper";
 import { loadPostedContent } from "./data/content-tracker";
+import { loadSecrets } from "./data/secrets";
 import { isStorageConfigured } from "./data/storage";
-import { loadSession, getAuthStatus, isMTProtoConfigured } from "./mtproto-scraper";
+import { getAuthStatus } from "./mtproto-scraper";
+import { loadAccounts, isMTProtoConfigured } from "./mtproto-pool";
 import { loadChannels, getPublicChannels } from "./data/channels";
+import { loadGroups } from "./data/groups";
+import { loadRouting } from "./data/routing";
+import { loadPostMap } from "./data/post-map";
+import { loadWebSeen } from "./web-watcher";
+import { loadHealth } from "./health";
+import { loadOutbox, startOutbox } from "./outbox";
+import { loadDrafts, startReview, isReviewConfigured } from "./review";
+import { loadQueue } from "./queue";
 import { startServer } from "./server";
 import { initQuizModule } from "./quiz";
 
@@ -33,22 +43,37 @@ async function main() {
     console.log("[Storage] Loading from Supabase...");
     await loadLastProcessed();
     await loadPostedContent();
-    await loadSession();
+    await loadSecrets();
     await loadChannels();
+    await loadGroups();
+    await loadRouting();
+    await loadPostMap();
+    await loadWebSeen();
+    await loadHealth();
+    await loadOutbox();
+    await loadDrafts();
+    await loadQueue();
   }
 
-  // Check MTProto status
+  // Check MTProto status (SESSION_STRING works without Supabase too)
   if (isMTProtoConfigured()) {
+    await loadAccounts();
     const status = getAuthStatus();
     if (status.authenticated) {
-      console.log("[MTProto] Session available - can access private channels");
+      console.log(`[MTProto] ${status.accounts.length} account(s) available - can access private channels`);
     } else {
       console.log("[MTProto] Not authenticated - visit /auth to login");
     }
   }
 
-  // Initialize bot
+  // Initialize bot and start sending queued posts
   initBot();
+  startOutbox();
+
+  // Review buttons (sources with review on send drafts to REVIEW_CHAT_ID)
+  if (isReviewConfigured()) {
+    await startReview();
+  }
 
   // Start HTTP server
   startServer();
@@ -69,11 +94,18 @@ async function main() {
 
   // Run initial poster check
   console.log("[Startup] Running initial check...");
-  await runPoster();
+  await pollNow();
+
+  // Real-time mode for MTProto channels (skipped by the cron poll)
+  if (config.realtimeMode && getAuthStatus().authenticated) {
+    const started = await startRealtimeMode();
+    console.log(started
+      ? "[Realtime] MTProto channels switched to real-time updates"
+      : "[Realtime] Not started - MTProto channels will be polled");
+  }
 
-  // Schedule poster cron job
-  console.log(`[Scheduler] Cron: ${config.cronSchedule}`);
-  cron.schedule(config.cronSchedule, () => runPoster());
+  // Poll sources on the cron schedule / their own intervals
+  startScheduler();
 
   console.log("[Bot] Running. Press Ctrl+C to stop.\n");
 
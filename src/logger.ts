@@ -0,0 +1,22 @@
+/**
+ * Logger - Level-aware logging helpers
+ * Set LOG_LEVEL=debug to see verbose output
+ */
+
+import { config } from "./config";
+
+/**
+ * Check if debug logging is enabled
+ */
+export function isDebugEnabled(): boolean {
+    return config.logLevel === "debug";
+}
+
+/**
+ * Log a debug message, e.g. debug("MTProto", "Event received")
+ */
+export function debug(tag: string, ...args: unknown[]): void {
+    if (isDebugEnabled()) {
+        console.log(`[${tag} DEBUG]`, ...args);
+    }
+}
@@ -0,0 +1,55 @@
+/**
+ * Media Store - Local media files downloaded for a message
+ * Files live in config.mediaDir until the message is done (posted or skipped)
+ */
+
+import { existsSync, unlinkSync } from "fs";
+import { join, basename } from "path";
+import { config } from "./config";
+import type { TelegramMessage } from "./types";
+
+/**
+ * Build a safe local path in the media dir
+ */
+export function mediaPath(filename: string): string {
+    const safe = basename(filename).replace(/[^\w.\-]+/g, "_").slice(-150);
+    return join(config.mediaDir, safe);
+}
+
+/**
+ * Check if a media "URL" is actually a local file we downloaded
+ */
+export function isLocalMedia(url: string): boolean {
+    return url.startsWith(config.mediaDir) && existsSync(url);
+}
+
+/**
+ * Human readable size like the web preview shows ("1.2 MB")
+ */
+export function formatSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${bytes} B`;
+}
+
+/**
+ * Delete all local files attached to a message
+ */
+export function releaseMessageMedia(message: TelegramMessage): void {
+    const urls = [
+        ...message.images,
+        ...message.videos,
+        ...(message.videoInfo || []).map((v) => v.thumbnail || ""),
+        ...message.documents.map((d) => d.url),
+        ...(message.audio || []).map((a) => a.url),
+    ];
+
+    for (const url of urls) {
+        if (!url.startsWith(config.mediaDir)) continue;
+        try {
+            if (existsSync(url)) unlinkSync(url);
+        } catch {
+            // ignore
+        }
+    }
+}
@@ -0,0 +1,308 @@
+/**
+ * MTProto Session Pool - Several logged-in accounts for private channels
+ * Channels can be pinned to an account; when it hits FLOOD_WAIT, loses
+ * access to a channel or gets logged out, the next account takes over
+ */
+
+import { TelegramClient } from "telegram";
+import { StringSession } from "telegram/sessions";
+import { Logger, LogLevel } from "telegram/extensions/Logger";
+import { FloodWaitError, RPCError } from "telegram/errors";
+import { getValue, setValue, isStorageConfigured } from "./data/storage";
+import { getSecret, setSecret, deleteSecret, listSecrets, isSecretsConfigured } from "./data/secrets";
+import { isDebugEnabled } from "./logger";
+import { sendAdminAlert } from "./bot";
+
+export const API_ID = parseInt(process.env.API_ID || "0");
+export const API_HASH = process.env.API_HASH || "";
+
+// Account created from SESSION_STRING (or the old single stored session)
+export const DEFAULT_ACCOUNT = "main";
+
+/**
+ * What the /auth page shows per account
+ */
+export interface AccountHealth {
+    name: string;
+    status: "ok" | "flood_wait" | "logged_out";
+    fromEnv: boolean;          // SESSION_STRING accounts can't be removed from the UI
+    connected: boolean;
+    floodUntil?: string;
+    lastUsed?: string;
+    lastError?: string;
+    noAccess: string[];        // Channels this account recently couldn't read
+}
+
+interface Account {
+    name: string;
+    session: string;
+    fromEnv: boolean;
+    client: TelegramClient | null;
+    floodUntil: number;
+    loggedOut: boolean;
+    lastUsed?: string;
+    lastError?: string;
+    noAccess: Map<string, number>; // channel (lowercase) -> when access failed
+}
+
+// Errors meaning the session itself is gone
+const LOGGED_OUT_ERRORS = ["AUTH_KEY_UNREGISTERED", "AUTH_KEY_DUPLICATED", "SESSION_REVOKED", "SESSION_EXPIRED", "USER_DEACTIVATED", "USER_DEACTIVATED_BAN"];
+// Errors meaning this account can't read (or post to) one channel - others may still
+const ACCESS_ERRORS = ["CHANNEL_PRIVATE", "CHANNEL_INVALID", "CHAT_FORBIDDEN", "USER_BANNED_IN_CHANNEL", "CHANNEL_PUBLIC_GROUP_NA", "CHAT_ADMIN_REQUIRED", "CHAT_WRITE_FORBIDDEN"];
+// Retry an account on a channel it lost access to (it may have been re-added)
+const NO_ACCESS_RETRY_MS = 60 * 60 * 1000;
+
+// Sessions are stored as secrets named "mtproto_session:<account>"
+const SECRET_PREFIX = "mtproto_session:";
+
+// Insertion order = failover order
+const accounts = new Map<string, Account>();
+
+/**
+ * Check if MTProto is configured
+ */
+export function isMTProtoConfigured(): boolean {
+    return Boolean(API_ID && API_HASH);
+}
+
+/**
+ * Create a client for a session string ("" for a new login)
+ */
+export function createClient(session: string): TelegramClient {
+    return new TelegramClient(new StringSession(session), API_ID, API_HASH, {
+        connectionRetries: 3,
+        autoReconnect: true,
+        baseLogger: new Logger(isDebugEnabled() ? LogLevel.DEBUG : LogLevel.WARN),
+    });
+}
+
+/**
+ * Load sessions - SESSION_STRING env first, then encrypted secrets
+ * (call after loadSecrets)
+ */
+export async function loadAccounts(): Promise<boolean> {
+    if (!isMTProtoConfigured()) return false;
+
+    // 1. Env var
+    if (process.env.SESSION_STRING) {
+        register(DEFAULT_ACCOUNT, process.env.SESSION_STRING, true);
+        console.log(`[MTProto] Session "${DEFAULT_ACCOUNT}" loaded from env`);
+    }
+
+    // 2. Sessions saved from /auth
+    await migratePlaintextSessions();
+    for (const secret of listSecrets(SECRET_PREFIX)) {
+        const name = secret.slice(SECRET_PREFIX.length);
+        const session = getSecret(secret);
+        if (accounts.has(name) || !session) continue;
+        register(name, session, false);
+        console.log(`[MTProto] Session "${name}" loaded from encrypted storage`);
+    }
+
+    return accounts.size > 0;
+}
+
+/**
+ * Move sessions stored in plain text by older versions into secrets
+ * Without SECRETS_KEY they're still used, but stay in plain text
+ */
+async function migratePlaintextSessions(): Promise<void> {
+    if (!isStorageConfigured()) return;
+
+    const stored = await getValue<Record<string, string>>("mtproto_sessions", {});
+    const legacy = await getValue<string>("session_string", "");
+    if (legacy && !stored[DEFAULT_ACCOUNT]) stored[DEFAULT_ACCOUNT] = legacy;
+    if (Object.keys(stored).length === 0) return;
+
+    if (!isSecretsConfigured()) {
+        console.warn("[MTProto] Sessions are stored in plain text in Supabase - set SECRETS_KEY to encrypt them");
+        for (const [name, session] of Object.entries(stored)) {
+            if (!accounts.has(name) && session) register(name, session, false);
+        }
+        return;
+    }
+
+    for (const [name, session] of Object.entries(stored)) {
+        if (session && !getSecret(SECRET_PREFIX + name)) await setSecret(SECRET_PREFIX + name, session);
+    }
+    await setValue("mtproto_sessions", {});
+    if (legacy) await setValue("session_string", "");
+    console.log(`[MTProto] Encrypted ${Object.keys(stored).length} plain-text session(s) and removed the originals`);
+}
+
+function register(name: string, session: string, fromEnv: boolean, client: TelegramClient | null = null): void {
+    accounts.set(name, {
+        name,
+        session,
+        fromEnv,
+        client,
+        floodUntil: 0,
+        loggedOut: false,
+        noAccess: new Map(),
+    });
+}
+
+/**
+ * Add (or replace) an account after logging in on /auth
+ * Returns false if the session couldn't be saved (no SECRETS_KEY / Supabase)
+ */
+export async function addAccount(name: string, session: string, client?: TelegramClient): Promise<boolean> {
+    const existing = accounts.get(name);
+    if (existing?.client && existing.client !== client) {
+        await existing.client.disconnect().catch(() => {});
+    }
+
+    register(name, session, false, client);
+    const saved = await setSecret(SECRET_PREFIX + name, session);
+    console.log(`[MTProto] Account "${name}" added${saved ? " (session saved encrypted)" : " - not saved, SECRETS_KEY or Supabase missing"}`);
+    return saved;
+}
+
+/**
+ * Log an account out of the pool (env accounts stay)
+ */
+export async function removeAccount(name: string): Promise<boolean> {
+    const account = accounts.get(name);
+    if (!account || account.fromEnv) return false;
+
+    await account.client?.disconnect().catch(() => {});
+    accounts.delete(name);
+    await deleteSecret(SECRET_PREFIX + name);
+    console.log(`[MTProto] Account "${name}" removed`);
+    return true;
+}
+
+/**
+ * True if at least one account can be used
+ */
+export function hasAccounts(): boolean {
+    return [...accounts.values()].some((a) => !a.loggedOut);
+}
+
+export function getAccountNames(): string[] {
+    return [...accounts.keys()];
+}
+
+/**
+ * Per-account status for the UI
+ */
+export function getAccountHealth(): AccountHealth[] {
+    const now = Date.now();
+    return [...accounts.values()].map((a) => ({
+        name: a.name,
+        status: a.loggedOut ? "logged_out" : a.floodUntil > now ? "flood_wait" : "ok",
+        fromEnv: a.fromEnv,
+        connected: Boolean(a.client?.connected),
+        floodUntil: a.floodUntil > now ? new Date(a.floodUntil).toISOString() : undefined,
+        lastUsed: a.lastUsed,
+        lastError: a.lastError,
+        noAccess: [...a.noAccess.keys()],
+    }));
+}
+
+/**
+ * Clients that are currently connected (real-time watchdog)
+ */
+export function getActiveClients(): TelegramClient[] {
+    return [...accounts.values()]
+        .filter((a) => a.client && !a.loggedOut)
+        .map((a) => a.client!);
+}
+
+/**
+ * Run an MTProto call with a pooled account
+ * The preferred account goes first; FLOOD_WAIT, lost channel access and
+ * logged-out sessions fail over to the next usable account. Any other
+ * error is thrown as-is.
+ */
+export async function withAccount<T>(
+    channel: string | null,
+    fn: (client: TelegramClient, account: string) => Promise<T>,
+    preferred?: string
+): Promise<T> {
+    const candidates = usableAccounts(channel, preferred);
+    if (candidates.length === 0) {
+        throw new Error(`No MTProto account available${channel ? ` for @${channel}` : ""} (${describeUnavailable()})`);
+    }
+
+    let lastError: unknown;
+    for (const account of candidates) {
+        try {
+            const client = await connect(account);
+            const result = await fn(client, account.name);
+            account.lastUsed = new Date().toISOString();
+            if (channel) account.noAccess.delete(channel.toLowerCase());
+            return result;
+        } catch (err) {
+            if (!markAccountError(account, err, channel)) throw err;
+            lastError = err;
+            console.warn(`[MTProto] Account "${account.name}": ${account.lastError} - trying the next account`);
+        }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error("All MTProto accounts failed");
+}
+
+/**
+ * Accounts to try for a channel, preferred first
+ */
+function usableAccounts(channel: string | null, preferred?: string): Account[] {
+    const now = Date.now();
+    const key = channel?.toLowerCase();
+
+    return [...accounts.values()]
+        .filter((a) => {
+            if (a.loggedOut || a.floodUntil > now) return false;
+            const deniedAt = key ? a.noAccess.get(key) : undefined;
+            return !deniedAt || now - deniedAt > NO_ACCESS_RETRY_MS;
+        })
+        .sort((a, b) => Number(b.name === preferred) - Number(a.name === preferred));
+}
+
+function describeUnavailable(): string {
+    if (accounts.size === 0) return "no sessions";
+    return getAccountHealth().map((a) => `${a.name}: ${a.status}`).join(", ");
+}
+
+async function connect(account: Account): Promise<TelegramClient> {
+    if (!account.client) {
+        account.client = createClient(account.session);
+    }
+    if (!account.client.connected) {
+        await account.client.connect();
+        console.log(`[MTProto] Connected as "${account.name}"`);
+    }
+    return account.client;
+}
+
+/**
+ * Record an account-level failure
+ * Returns false for errors another account wouldn't fix
+ */
+function markAccountError(account: Account, err: unknown, channel: string | null): boolean {
+    const code = err instanceof RPCError ? err.errorMessage : err instanceof Error ? err.message : "";
+
+    if (err instanceof FloodWaitError || code.startsWith("FLOOD_WAIT")) {
+        const seconds = (err instanceof FloodWaitError && err.seconds) || 60;
+        account.floodUntil = Date.now() + seconds * 1000;
+        account.lastError = `FLOOD_WAIT ${seconds}s`;
+        return true;
+    }
+
+    if (LOGGED_OUT_ERRORS.some((e) => code.includes(e))) {
+        account.loggedOut = true;
+        account.lastError = code;
+        account.client?.disconnect().catch(() => {});
+        account.client = null;
+        sendAdminAlert(`🔑 MTProto account "${account.name}" was logged out (${code}). Log in again on /auth.`);
+        return true;
+    }
+
+    if (channel && ACCESS_ERRORS.some((e) => code.includes(e))) {
+        account.noAccess.set(channel.toLowerCase(), Date.now());
+        account.lastError = `${code} on @${channel}`;
+        return true;
+    }
+
+    return false;
+}
@@ -1,117 +1,286 @@
 /**
- * MTProto Scraper - Uses session string for private channels
+ * MTProto Scraper - Uses the session pool for private channels
  */
 
 import { TelegramClient } from "telegram";
-import { StringSession } from "telegram/sessions";
-import { getValue, setValue, isStorageConfigured } from "./data/storage";
-import type { TelegramMessage } from "./types";
+import { Api } from "telegram/tl";
+import { groupAlbums, createAlbumBuffer, MAX_ALBUM_ITEMS } from "./album";
+import { debug } from "./logger";
+import { config } from "./config";
+import { mediaPath, formatSize } from "./media-store";
+import { entitiesToHtml } from "./formatter";
+import { matchesType } from "./http-client";
+import { returnBigInt } from "telegram/Helpers";
+import { getChannel } from "./data/channels";
+import {
+    API_ID,
+    API_HASH,
+    DEFAULT_ACCOUNT,
+    isMTProtoConfigured,
+    createClient,
+    addAccount,
+    hasAccounts,
+    getAccountHealth,
+    getActiveClients,
+    withAccount,
+    type AccountHealth,
+} from "./mtproto-pool";
+import type { TelegramMessage, VideoInfo } from "./types";
+
+export { isMTProtoConfigured };
+
+// Real-time state
+const REALTIME_CHECK_MS = 30 * 1000;
+const CATCH_UP_EVERY_MS = 15 * 60 * 1000;
+const realtimeChannels = new Set<string>(); // lowercase usernames
+let watchdog: ReturnType<typeof setInterval> | null = null;
 
-const API_ID = parseInt(process.env.API_ID || "0");
-const API_HASH = process.env.API_HASH || "";
-
-let client: TelegramClient | null = null;
-let sessionString: string = "";
+/**
+ * Account a channel is pinned to (unset = first usable account)
+ */
+function accountFor(channelUsername: string): string | undefined {
+    return getChannel(channelUsername)?.account;
+}
 
 /**
- * Check if MTProto is configured
+ * Scrape messages using MTProto (for private channels)
  */
-export function isMTProtoConfigured(): boolean {
-    return Boolean(API_ID && API_HASH);
+export async function scrapeChannelMTProto(
+    channelUsername: string,
+    limit: number = 20,
+    minId?: string
+): Promise<TelegramMessage[]> {
+    if (!hasAccounts()) return [];
+
+    try {
+        return await withAccount(channelUsername, (tgClient, account) =>
+            fetchChannelMessages(tgClient, account, channelUsername, limit, minId),
+        accountFor(channelUsername));
+    } catch (err: any) {
+        // Thrown on, so the source's health records it
+        console.error(`[MTProto] Error fetching @${channelUsername}:`, err.message);
+        throw err;
+    }
 }
 
 /**
- * Load session string - check env first, then Supabase
+ * Fetch and convert a channel's latest messages with one account
  */
-export async function loadSession(): Promise<boolean> {
-    if (!isMTProtoConfigured()) return false;
+async function fetchChannelMessages(
+    tgClient: TelegramClient,
+    account: string,
+    channelUsername: string,
+    limit: number,
+    minId?: string
+): Promise<TelegramMessage[]> {
+    console.log(`[MTProto] Fetching @${channelUsername} as "${account}"...`);
 
-    // 1. Check env var first (most secure)
-    if (process.env.SESSION_STRING) {
-        sessionString = process.env.SESSION_STRING;
-        console.log("[MTProto] Session loaded from env");
-        return true;
+    const entity = await tgClient.getEntity(channelUsername);
+    const messages = await tgClient.getMessages(entity, { limit, minId: minId ? parseInt(minId) : undefined });
+
+    // An album can be cut off at the oldest end - fetch its remaining parts
+    const oldest = messages[messages.length - 1];
+    if (messages.length === limit && oldest?.groupedId) {
+        const older = await tgClient.getMessages(entity, { limit: MAX_ALBUM_ITEMS - 1, offsetId: oldest.id });
+        messages.push(...older.filter(m => m.groupedId?.toString() === oldest.groupedId?.toString()));
     }
 
-    // 2. Fallback to Supabase (for initial auth)
-    if (isStorageConfigured()) {
-        sessionString = await getValue<string>("session_string", "");
-        if (sessionString) {
-            console.log("[MTProto] Session loaded from Supabase");
-            console.log("[MTProto] TIP: Copy session to SESSION_STRING env var for security");
-            return true;
-        }
+    const parsed: TelegramMessage[] = [];
+    for (const msg of messages) {
+        if (!msg.message && !msg.media) continue;
+        parsed.push(await toTelegramMessage(tgClient, msg, channelUsername));
     }
-    return false;
+    const result = groupAlbums(parsed);
+
+    console.log(`[MTProto] Got ${result.length} messages from @${channelUsername}`);
+    return result;
 }
 
 /**
- * Save session string (just in-memory, user will copy to env)
+ * Convert an MTProto message into our message model
+ * Photos, videos and documents are downloaded into the media dir
  */
-function saveSession(session: string): void {
-    sessionString = session;
-    console.log("[MTProto] Session generated - copy to SESSION_STRING env var");
+async function toTelegramMessage(
+    tgClient: TelegramClient,
+    msg: Api.Message,
+    channelUsername: string,
+    downloadMedia: boolean = true
+): Promise<TelegramMessage> {
+    const images: string[] = [];
+    const videos: string[] = [];
+    const videoInfo: NonNullable<TelegramMessage["videoInfo"]> = [];
+    const documents: TelegramMessage["documents"] = [];
+    const audio: NonNullable<TelegramMessage["audio"]> = [];
+    let poll: TelegramMessage["poll"];
+    let linkPreview: TelegramMessage["linkPreview"];
+    let sticker: TelegramMessage["sticker"];
+
+    // Unique per download: catch-up and real-time can both fetch a message, and
+    // the copy that isn't processed is released without touching the other
+    const prefix = `mtproto_${channelUsername}_${msg.id}_${Date.now().toString(36)}`;
+
+    if (!downloadMedia) {
+        // Text-only view (edit sync) - skip downloads
+    } else if (msg.media instanceof Api.MessageMediaPhoto) {
+        const path = await downloadToMediaDir(tgClient, msg, `${prefix}.jpg`);
+        if (path) images.push(path);
+    } else if (msg.media instanceof Api.MessageMediaDocument && msg.media.document instanceof Api.Document) {
+        const doc = msg.media.document;
+        const size = Number(doc.size);
+        const filenameAttr = doc.attributes.find(
+            (a): a is Api.DocumentAttributeFilename => a instanceof Api.DocumentAttributeFilename
+        );
+        const audioAttr = doc.attributes.find(
+            (a): a is Api.DocumentAttributeAudio => a instanceof Api.DocumentAttributeAudio
+        );
+        const stickerAttr = doc.attributes.find(
+            (a): a is Api.DocumentAttributeSticker => a instanceof Api.DocumentAttributeSticker
+        );
+        const videoAttr = doc.attributes.find(
+            (a): a is Api.DocumentAttributeVideo => a instanceof Api.DocumentAttributeVideo
+        );
+        const isVideo = doc.mimeType.startsWith("video/") && !audioAttr;
+        // Big videos can still be reposted (uploaded over MTProto), so they get their own cap
+        const maxMb = isVideo ? config.maxVideoMb : config.maxDownloadMb;
+        const ext = doc.mimeType.split("/")[1]?.split(";")[0] || "bin";
+        const originalName = filenameAttr?.fileName || `${prefix}.${ext}`;
+
+        if (stickerAttr) {
+            // Stickers can't be re-sent by a different bot - keep the emoji only
+            sticker = { emoji: stickerAttr.alt || undefined };
+        } else if (size > maxMb * 1024 * 1024) {
+            console.log(`[MTProto] Skipping ${originalName} (${formatSize(size)}) - over ${maxMb} MB download limit`);
+        } else {
+            const path = await downloadToMediaDir(tgClient, msg, `${prefix}_${originalName}`);
+            if (path && audioAttr) {
+                audio.push({
+                    url: path,
+                    title: audioAttr.title,
+                    performer: audioAttr.performer,
+                    duration: audioAttr.duration,
+                    voice: Boolean(audioAttr.voice),
+                });
+            } else if (path && isVideo) {
+                videos.push(path);
+                videoInfo.push({
+                    url: path,
+                    duration: videoAttr?.duration,
+                    width: videoAttr?.w,
+                    height: videoAttr?.h,
+                    thumbnail: doc.thumbs?.length
+                        ? await downloadToMediaDir(tgClient, msg, `${prefix}_thumb.jpg`, doc.thumbs.length - 1) || undefined
+                        : undefined,
+                    size,
+                });
+            } else if (path) {
+                documents.push({ url: path, title: originalName, size: formatSize(size) });
+            }
+        }
+    } else if (msg.media instanceof Api.MessageMediaPoll && msg.media.poll instanceof Api.Poll) {
+        const p = msg.media.poll;
+        poll = {
+            question: textOf(p.question),
+            options: p.answers.map((a) => textOf(a.text)),
+            quiz: Boolean(p.quiz),
+            multipleChoice: Boolean(p.multipleChoice),
+        };
+    } else if (msg.media instanceof Api.MessageMediaWebPage && msg.media.webpage instanceof Api.WebPage) {
+        const page = msg.media.webpage;
+        linkPreview = {
+            url: page.url,
+            siteName: page.siteName,
+            title: page.title,
+            description: page.description,
+        };
+    }
+
+    // Links from entities (plain URLs and text links)
+    const links: string[] = [];
+    for (const entity of msg.entities || []) {
+        if (entity instanceof Api.MessageEntityTextUrl) {
+            links.push(entity.url);
+        } else if (entity instanceof Api.MessageEntityUrl) {
+            links.push(msg.message.slice(entity.offset, entity.offset + entity.length));
+        }
+    }
+
+    return {
+        id: msg.id.toString(),
+        text: msg.message || "",
+        html: entitiesToHtml(msg.message || "", msg.entities),
+        date: msg.date ? new Date(msg.date * 1000).toISOString() : new Date().toISOString(),
+        images,
+        videos,
+        videoInfo: videoInfo.length > 0 ? videoInfo : undefined,
+        documents,
+        links,
+        channel: channelUsername,
+        groupedId: msg.groupedId ? `${channelUsername}:${msg.groupedId.toString()}` : null,
+        forwardedFrom: await getForwardInfo(tgClient, msg),
+        replyToId: msg.replyTo instanceof Api.MessageReplyHeader && msg.replyTo.replyToMsgId
+            ? msg.replyTo.replyToMsgId.toString()
+            : undefined,
+        poll,
+        linkPreview,
+        views: msg.views,
+        audio: audio.length > 0 ? audio : undefined,
+        sticker,
+    };
 }
 
 /**
- * Get connected client
+ * Resolve who a forwarded message originally came from
  */
-async function getClient(): Promise<TelegramClient | null> {
-    if (!isMTProtoConfigured() || !sessionString) return null;
+async function getForwardInfo(
+    tgClient: TelegramClient,
+    msg: Api.Message
+): Promise<TelegramMessage["forwardedFrom"]> {
+    const fwd = msg.fwdFrom;
+    if (!fwd) return undefined;
 
-    if (!client) {
-        const session = new StringSession(sessionString);
-        client = new TelegramClient(session, API_ID, API_HASH, {
-            connectionRetries: 3,
-        });
-        await client.connect();
-        console.log("[MTProto] Connected");
+    if (fwd.fromName) return { name: fwd.fromName };
+    if (!fwd.fromId) return { name: fwd.postAuthor || "unknown" };
+
+    try {
+        const entity = await tgClient.getEntity(fwd.fromId);
+        const username = entity instanceof Api.Channel || entity instanceof Api.User ? entity.username || undefined : undefined;
+        const title = entity instanceof Api.Channel || entity instanceof Api.Chat ? entity.title : "";
+        const personName = entity instanceof Api.User ? [entity.firstName, entity.lastName].filter(Boolean).join(" ") : "";
+        const name = title || personName || username || "unknown";
+        return {
+            name,
+            username,
+            url: username && fwd.channelPost ? `https://t.me/${username}/${fwd.channelPost}` : undefined,
+        };
+    } catch {
+        return { name: fwd.postAuthor || "unknown" };
     }
-    return client;
 }
 
 /**
- * Scrape messages using MTProto (for private channels)
+ * Poll texts are plain strings in older layers and TextWithEntities in newer ones
  */
-export async function scrapeChannelMTProto(
-    channelUsername: string,
-    limit: number = 20
-): Promise<TelegramMessage[]> {
-    const tgClient = await getClient();
-    if (!tgClient) return [];
+function textOf(value: Api.TypeTextWithEntities | string): string {
+    return typeof value === "string" ? value : value.text;
+}
 
+/**
+ * Stream a message's media into the media dir
+ */
+async function downloadToMediaDir(
+    tgClient: TelegramClient,
+    msg: Api.Message,
+    filename: string,
+    thumb?: number
+): Promise<string | null> {
+    const path = mediaPath(filename);
     try {
-        console.log(`[MTProto] Fetching @${channelUsername}...`);
-
-        const entity = await tgClient.getEntity(channelUsername);
-        const messages = await tgClient.getMessages(entity, { limit });
-
-        const result: TelegramMessage[] = [];
-        for (const msg of messages) {
-            if (!msg.message && !msg.media) continue;
-
-            // Detect media type
-            const hasDocument = msg.media?.className === "MessageMediaDocument";
-            const hasPhoto = msg.media?.className === "MessageMediaPhoto";
-
-            result.push({
-                id: msg.id.toString(),
-                text: msg.message || "",
-                html: msg.message || "",
-                date: msg.date ? new Date(msg.date * 1000).toISOString() : "",
-                images: hasPhoto ? ["mtproto:photo"] : [],
-                videos: [],
-                documents: hasDocument ? [{ url: "mtproto:forward", title: "document" }] : [],
-                links: [],
-                channel: channelUsername,
-            });
-        }
-
-        console.log(`[MTProto] Got ${result.length} messages from @${channelUsername}`);
-        return result;
+        await tgClient.downloadMedia(msg, { outputFile: path, thumb });
+        debug("MTProto", `Downloaded ${path}`);
+        return path;
     } catch (err: any) {
-        console.error(`[MTProto] Error fetching @${channelUsername}:`, err.message);
-        return [];
+        console.error(`[MTProto] Failed to download media for ${msg.id}:`, err.message);
+        return null;
     }
 }
 
@@ -123,17 +292,18 @@ export async function forwardMessage(
     messageId: number,
     toChannel: string
 ): Promise<boolean> {
-    const tgClient = await getClient();
-    if (!tgClient) return false;
+    if (!hasAccounts()) return false;
 
     try {
-        const fromEntity = await tgClient.getEntity(fromChannel);
-        const toEntity = await tgClient.getEntity(toChannel);
+        await withAccount(fromChannel, async (tgClient) => {
+            const fromEntity = await tgClient.getEntity(fromChannel);
+            const toEntity = await tgClient.getEntity(toChannel);
 
-        await tgClient.forwardMessages(toEntity, {
-            messages: [messageId],
-            fromPeer: fromEntity,
-        });
+            await tgClient.forwardMessages(toEntity, {
+                messages: [messageId],
+                fromPeer: fromEntity,
+            });
+        }, accountFor(fromChannel));
 
         console.log(`[MTProto] Forwarded message ${messageId} from @${fromChannel}`);
         return true;
@@ -143,6 +313,104 @@ export async function forwardMessage(
     }
 }
 
+/**
+ * Download the media of one channel post (e.g. a document the web preview only links to)
+ * Returns the local path, or null without a session / media, or when the
+ * document's MIME type isn't one of `types`
+ */
+export async function downloadMessageMedia(
+    channelUsername: string,
+    messageId: number,
+    filename: string,
+    types?: string[]
+): Promise<string | null> {
+    if (!hasAccounts()) return null;
+
+    try {
+        return await withAccount(channelUsername, async (tgClient) => {
+            const entity = await tgClient.getEntity(channelUsername);
+            const [msg] = await tgClient.getMessages(entity, { ids: [messageId] });
+            if (!msg?.media) return null;
+
+            const doc = msg.media instanceof Api.MessageMediaDocument && msg.media.document instanceof Api.Document
+                ? msg.media.document
+                : null;
+            if (doc && !matchesType(doc.mimeType, types)) {
+                console.log(`[MTProto] Skipping ${filename} - it's ${doc.mimeType}, not the expected file`);
+                return null;
+            }
+
+            const size = doc ? Number(doc.size) : 0;
+            if (size > config.maxDownloadMb * 1024 * 1024) {
+                console.log(`[MTProto] Skipping ${filename} (${formatSize(size)}) - over ${config.maxDownloadMb} MB download limit`);
+                return null;
+            }
+
+            return await downloadToMediaDir(tgClient, msg, `mtproto_${channelUsername}_${messageId}_${filename}`);
+        }, accountFor(channelUsername));
+    } catch (err: any) {
+        console.error(`[MTProto] Failed to fetch @${channelUsername}/${messageId}:`, err.message);
+        return null;
+    }
+}
+
+/**
+ * Upload a video through the user session (Bot API uploads are capped at 50 MB)
+ * The account must be an admin of the target channel (others are tried if not)
+ * Returns the posted message ID
+ */
+export async function uploadVideo(
+    toChat: string,
+    filePath: string,
+    caption: string,
+    info?: VideoInfo,
+    options: { silent?: boolean; noforwards?: boolean } = {}
+): Promise<number | null> {
+    if (!hasAccounts()) return null;
+
+    try {
+        const sent = await withAccount(toChat, async (tgClient) => {
+            const toEntity = await resolveChat(tgClient, toChat);
+            return await tgClient.sendFile(toEntity, {
+                file: filePath,
+                caption,
+                parseMode: "html",
+                supportsStreaming: true,
+                silent: options.silent,
+                noforwards: options.noforwards,
+                thumb: info?.thumbnail,
+                attributes: info?.width && info.height
+                    ? [new Api.DocumentAttributeVideo({
+                        duration: info.duration || 0,
+                        w: info.width,
+                        h: info.height,
+                        supportsStreaming: true,
+                    })]
+                    : undefined,
+            });
+        });
+        console.log(`[MTProto] Uploaded ${formatSize(Bun.file(filePath).size)} video to ${toChat}`);
+        return sent.id;
+    } catch (err: any) {
+        console.error(`[MTProto] Video upload failed:`, err.message);
+        return null;
+    }
+}
+
+/**
+ * Resolve a chat by @username or marked ID (-100...)
+ * Marked IDs only resolve once the chat is in the session cache, so load dialogs once if needed
+ */
+async function resolveChat(tgClient: TelegramClient, chat: string) {
+    const id = /^-?\d+$/.test(chat) ? returnBigInt(chat) : chat;
+    try {
+        return await tgClient.getEntity(id);
+    } catch {
+        await tgClient.getDialogs({});
+        return await tgClient.getEntity(id);
+    }
+}
+
 /**
  * Send a message with optional media copy (for when we need to modify text)
  */
@@ -152,32 +420,33 @@ export async function sendMessage(
     fromChannel?: string,
     messageId?: number
 ): Promise<boolean> {
-    const tgClient = await getClient();
-    if (!tgClient) return false;
+    if (!hasAccounts()) return false;
 
     try {
-        const toEntity = await tgClient.getEntity(toChannel);
-
-        // If we have source message, copy media and send with new text
-        if (fromChannel && messageId) {
-            const fromEntity = await tgClient.getEntity(fromChannel);
-            const [sourceMsg] = await tgClient.getMessages(fromEntity, { ids: [messageId] });
-
-            if (sourceMsg?.media) {
-                // Send with media + new caption
-                await tgClient.sendMessage(toEntity, {
-                    message: text,
-                    file: sourceMsg.media,
-                });
-                console.log(`[MTProto] Sent with media to @${toChannel}`);
-                return true;
+        return await withAccount(toChannel, async (tgClient) => {
+            const toEntity = await tgClient.getEntity(toChannel);
+
+            // If we have source message, copy media and send with new text
+            if (fromChannel && messageId) {
+                const fromEntity = await tgClient.getEntity(fromChannel);
+                const [sourceMsg] = await tgClient.getMessages(fromEntity, { ids: [messageId] });
+
+                if (sourceMsg?.media) {
+                    // Send with media + new caption
+                    await tgClient.sendMessage(toEntity, {
+                        message: text,
+                        file: sourceMsg.media,
+                    });
+                    console.log(`[MTProto] Sent with media to @${toChannel}`);
+                    return true;
+                }
             }
-        }
 
-        // Just text
-        await tgClient.sendMessage(toEntity, { message: text });
-        console.log(`[MTProto] Sent text to @${toChannel}`);
-        return true;
+            // Just text
+            await tgClient.sendMessage(toEntity, { message: text });
+            console.log(`[MTProto] Sent text to @${toChannel}`);
+            return true;
+        });
     } catch (err: any) {
         console.error(`[MTProto] Send failed:`, err.message);
         return false;
@@ -187,6 +456,7 @@ export async function sendMessage(
 
 // Auth state for web flow
 let authState: {
+    account?: string;
     phoneNumber?: string;
     phoneCodeHash?: string;
     pendingClient?: TelegramClient;
@@ -194,17 +464,18 @@ let authState: {
 
 /**
  * Start auth flow - send code to phone
+ * The session is added to the pool under `account` (re-login replaces it)
  */
-export async function startAuth(phoneNumber: string): Promise<{ success: boolean; error?: string }> {
+export async function startAuth(
+    phoneNumber: string,
+    account: string = DEFAULT_ACCOUNT
+): Promise<{ success: boolean; error?: string }> {
     if (!isMTProtoConfigured()) {
         return { success: false, error: "API_ID and API_HASH not configured" };
     }
 
     try {
-        const session = new StringSession("");
-        const tgClient = new TelegramClient(session, API_ID, API_HASH, {
-            connectionRetries: 3,
-        });
+        const tgClient = createClient("");
         await tgClient.connect();
 
         const result = await tgClient.sendCode(
@@ -213,6 +484,7 @@ export async function startAuth(phoneNumber: string): Promise<{ success: boolean
         );
 
         authState = {
+            account,
             phoneNumber,
             phoneCodeHash: result.phoneCodeHash,
             pendingClient: tgClient,
@@ -227,7 +499,7 @@ export async function startAuth(phoneNumber: string): Promise<{ success: boolean
 /**
  * Complete auth - verify code
  */
-export async function completeAuth(code: string): Promise<{ success: boolean; session?: string; needs2FA?: boolean; error?: string }> {
+export async function completeAuth(code: string): Promise<{ success: boolean; saved?: boolean; session?: string; needs2FA?: boolean; error?: string }> {
     if (!authState.pendingClient || !authState.phoneNumber || !authState.phoneCodeHash) {
         return { success: false, error: "No pending auth. Start auth first." };
     }
@@ -255,7 +527,7 @@ export async function completeAuth(code: string): Promise<{ success: boolean; se
 /**
  * Complete 2FA - verify password
  */
-export async function complete2FA(password: string): Promise<{ success: boolean; session?: string; error?: string }> {
+export async function complete2FA(password: string): Promise<{ success: boolean; saved?: boolean; session?: string; error?: string }> {
     if (!authState.pendingClient) {
         return { success: false, error: "No pending auth. Start auth first." };
     }
@@ -284,143 +556,249 @@ export async function complete2FA(password: string): Promise<{ success: boolean;
 }
 
 /**
- * Finish auth and return session
+ * Finish auth and add the account to the pool
+ * The session is saved encrypted; it's only returned (to copy into
+ * SESSION_STRING) when it couldn't be saved
  */
-async function finishAuth(): Promise<{ success: boolean; session?: string; error?: string }> {
+async function finishAuth(): Promise<{ success: boolean; saved?: boolean; session?: string; error?: string }> {
     if (!authState.pendingClient) {
         return { success: false, error: "No pending client" };
     }
 
     const session = authState.pendingClient.session.save() as unknown as string;
-    await saveSession(session);
-    client = authState.pendingClient;
+    const saved = await addAccount(authState.account || DEFAULT_ACCOUNT, session, authState.pendingClient);
     authState = {};
 
-    return { success: true, session };
+    return saved ? { success: true, saved } : { success: true, saved, session };
 }
 
 /**
  * Get auth status
  */
-export function getAuthStatus(): { configured: boolean; authenticated: boolean } {
+export function getAuthStatus(): { configured: boolean; authenticated: boolean; accounts: AccountHealth[] } {
     return {
         configured: isMTProtoConfigured(),
-        authenticated: Boolean(sessionString),
+        authenticated: hasAccounts(),
+        accounts: getAccountHealth(),
     };
 }
 
+export interface RealtimeHandlers {
+    onNewMessage: (msg: TelegramMessage) => Promise<void>;
+    onEdit?: (msg: TelegramMessage) => Promise<void>;       // Text-only view of the edited message
+    onDelete?: (channel: string, ids: string[]) => Promise<void>;
+    onGap?: () => Promise<void>;                              // After reconnects and periodically
+}
+
 /**
  * Start real-time updates for MTProto channels
  * Messages are received instantly via event handlers (no polling!)
+ * onGap is called after a reconnect (and periodically) to catch up on
+ * anything the event stream may have missed
  */
 export async function startRealtimeUpdates(
     channels: string[],
-    onNewMessage: (msg: TelegramMessage) => Promise<void>
+    handlers: RealtimeHandlers
 ): Promise<boolean> {
-    const tgClient = await getClient();
-    if (!tgClient || channels.length === 0) return false;
+    if (!hasAccounts() || channels.length === 0) return false;
 
-    try {
-        // Import NewMessage event handler
-        const { NewMessage } = await import("telegram/events");
+    // Each account listens to the channels pinned to it
+    const byAccount = new Map<string, string[]>();
+    for (const channel of channels) {
+        const account = accountFor(channel) || "";
+        byAccount.set(account, [...(byAccount.get(account) || []), channel]);
+    }
+
+    let subscribed = 0;
+    for (const [account, group] of byAccount) {
+        try {
+            subscribed += await withAccount(null, (tgClient, name) =>
+                subscribeAccount(tgClient, name, group, handlers), account || undefined);
+        } catch (err: any) {
+            console.error("[MTProto] Failed to start real-time updates:", err.message);
+        }
+    }
+
+    if (subscribed === 0) {
+        console.log("[MTProto] No channels to subscribe to");
+        return false;
+    }
+
+    startWatchdog(handlers.onGap);
+    console.log(`[MTProto] Real-time updates enabled for ${subscribed} channel(s)`);
+    return true;
+}
+
+/**
+ * Subscribe one account's client to its channels
+ * Channels it can't resolve are left to polling (which fails over)
+ */
+async function subscribeAccount(
+    tgClient: TelegramClient,
+    account: string,
+    channels: string[],
+    handlers: RealtimeHandlers
+): Promise<number> {
+    const { onNewMessage, onEdit, onDelete } = handlers;
+
+    // Import event handlers
+    const { NewMessage } = await import("telegram/events");
+    const { EditedMessage } = await import("telegram/events/EditedMessage");
+    const { DeletedMessage } = await import("telegram/events/DeletedMessage");
+
+    // Get channel peer IDs for filtering
+    const channelIds: string[] = [];
+    const channelMap: Record<string, string> = {}; // id -> username
+
+    for (const username of channels) {
+        try {
+            const entity = await tgClient.getEntity(username);
+            // Get the peer ID (works for channels/chats)
+            const peerId = entity.id?.toString();
+            if (peerId) {
+                channelIds.push(peerId);
+                channelMap[peerId] = username;
+                console.log(`[MTProto] Subscribed to @${username} as "${account}" (ID: ${peerId})`);
+            }
+        } catch (err: any) {
+            console.error(`[MTProto] Could not subscribe to @${username}:`, err.message);
+        }
+    }
+
+    if (channelIds.length === 0) return 0;
 
-        // Get channel peer IDs for filtering
-        const channelIds: string[] = [];
-        const channelMap: Record<string, string> = {}; // id -> username
+    // Album parts arrive as separate updates - merge them before processing
+    const albumBuffer = createAlbumBuffer(onNewMessage);
 
-        for (const username of channels) {
+    // Add event handler for new messages (without chats filter - we'll filter in handler)
+    tgClient.addEventHandler(async (event: any) => {
+        try {
+            const msg = event.message;
+            debug("MTProto", `Event received, msg id: ${msg?.id}, has text: ${!!msg?.message}, has media: ${!!msg?.media}`);
+
+            if (!msg?.message && !msg?.media) return;
+
+            // Get channel info from the event
+            let channelUsername = "";
+            let chatId = "";
             try {
-                const entity = await tgClient.getEntity(username);
-                // Get the peer ID (works for channels/chats)
-                const peerId = entity.id?.toString();
-                if (peerId) {
-                    channelIds.push(peerId);
-                    channelMap[peerId] = username;
-                    console.log(`[MTProto] Subscribed to @${username} (ID: ${peerId})`);
-                }
+                const chat = await event.getChat();
+                chatId = chat?.id?.toString() || "";
+                channelUsername = chat?.username || chat?.title || "";
+                debug("MTProto", `From chat: ${channelUsername} (ID: ${chatId})`);
             } catch (err: any) {
-                console.error(`[MTProto] Could not subscribe to @${username}:`, err.message);
+                debug("MTProto", `Could not get chat: ${err.message}`);
+                return; // Can't identify source, skip
+            }
+
+            // Only process if it's from one of our subscribed channels
+            if (!channelIds.includes(chatId)) {
+                debug("MTProto", `Chat ID ${chatId} not subscribed, skipping`);
+                return;
+            }
+
+            // Use stored username if available
+            const storedName = channelMap[chatId];
+            if (storedName) {
+                channelUsername = storedName;
             }
-        }
 
-        if (channelIds.length === 0) {
-            console.log("[MTProto] No channels to subscribe to");
-            return false;
+            const telegramMessage = await toTelegramMessage(tgClient, msg, channelUsername);
+
+            console.log(`[MTProto] ⚡ New message from @${channelUsername}`);
+            albumBuffer.add(telegramMessage);
+        } catch (err: any) {
+            console.error("[MTProto] Event handler error:", err.message);
         }
+    }, new NewMessage({}));
 
-        // Add event handler for new messages (without chats filter - we'll filter in handler)
+    // Source edits - re-evaluated and synced to our post
+    if (onEdit) {
         tgClient.addEventHandler(async (event: any) => {
             try {
                 const msg = event.message;
+                const chat = await event.getChat();
+                const channelUsername = channelMap[chat?.id?.toString() || ""];
+                if (!msg || !channelUsername) return;
 
-                // Debug: log ALL incoming events
-                console.log(`[MTProto DEBUG] Event received, msg id: ${msg?.id}, has text: ${!!msg?.message}, has media: ${!!msg?.media}`);
-
-                if (!msg?.message && !msg?.media) return;
-
-                // Get channel info from the event
-                let channelUsername = "";
-                let chatId = "";
-                try {
-                    const chat = await event.getChat();
-                    chatId = chat?.id?.toString() || "";
-                    channelUsername = chat?.username || chat?.title || "";
-                    console.log(`[MTProto DEBUG] From chat: ${channelUsername} (ID: ${chatId})`);
-                    console.log(`[MTProto DEBUG] Subscribed IDs: ${channelIds.join(', ')}`);
-                } catch (err: any) {
-                    console.log(`[MTProto DEBUG] Could not get chat: ${err.message}`);
-                    return; // Can't identify source, skip
-                }
-
-                // Only process if it's from one of our subscribed channels
-                if (!channelIds.includes(chatId)) {
-                    console.log(`[MTProto DEBUG] Chat ID ${chatId} not in subscribed list, skipping`);
-                    return;
-                }
+                debug("MTProto", `Edit in @${channelUsername}: ${msg.id}`);
+                await onEdit(await toTelegramMessage(tgClient, msg, channelUsername, false));
+            } catch (err: any) {
+                console.error("[MTProto] Edit handler error:", err.message);
+            }
+        }, new EditedMessage({}));
+    }
 
-                // Use stored username if available
-                const storedName = channelMap[chatId];
-                if (storedName) {
-                    channelUsername = storedName;
-                }
+    // Source deletions (Telegram only reports the channel for channels, which is all we track)
+    if (onDelete) {
+        tgClient.addEventHandler(async (event: any) => {
+            try {
+                const peer = event.peer;
+                const chatId = peer instanceof Api.PeerChannel ? peer.channelId.toString() : "";
+                const channelUsername = channelMap[chatId];
+                if (!channelUsername) return;
 
-                // Detect media types and handle grouped messages
-                const hasDocument = msg.media?.className === "MessageMediaDocument";
-                const hasPhoto = msg.media?.className === "MessageMediaPhoto";
-                const groupedId = msg.groupedId?.toString() || null;
-
-                const telegramMessage: TelegramMessage = {
-                    id: msg.id.toString(),
-                    text: msg.message || "",
-                    html: msg.message || "",
-                    date: msg.date ? new Date(msg.date * 1000).toISOString() : new Date().toISOString(),
-                    images: hasPhoto ? ["mtproto:photo"] : [],
-                    videos: [],
-                    documents: hasDocument ? [{ url: "mtproto:forward", title: "document" }] : [],
-                    links: [],
-                    channel: channelUsername,
-                    groupedId,
-                };
-
-                console.log(`[MTProto] ⚡ New message from @${channelUsername}`);
-                await onNewMessage(telegramMessage);
+                debug("MTProto", `Deleted in @${channelUsername}: ${event.deletedIds.join(", ")}`);
+                await onDelete(channelUsername, event.deletedIds.map((id: number) => id.toString()));
             } catch (err: any) {
-                console.error("[MTProto] Event handler error:", err.message);
+                console.error("[MTProto] Delete handler error:", err.message);
             }
-        }, new NewMessage({}));
+        }, new DeletedMessage({}));
+    }
 
-        console.log(`[MTProto] Real-time updates enabled for ${channelIds.length} channel(s)`);
-        return true;
-    } catch (err: any) {
-        console.error("[MTProto] Failed to start real-time updates:", err.message);
-        return false;
+    for (const username of Object.values(channelMap)) {
+        realtimeChannels.add(username.toLowerCase());
     }
+    return channelIds.length;
+}
+
+/**
+ * Reconnect the pool's clients after disconnects and trigger catch-ups
+ */
+function startWatchdog(onGap?: () => Promise<void>): void {
+    if (watchdog) clearInterval(watchdog);
+
+    let lastCatchUp = Date.now();
+    let busy = false;
+
+    watchdog = setInterval(async () => {
+        if (busy) return;
+        busy = true;
+
+        try {
+            let needsCatchUp = Date.now() - lastCatchUp > CATCH_UP_EVERY_MS;
+
+            for (const client of getActiveClients()) {
+                if (client.connected) continue;
+                console.log("[MTProto] Disconnected - reconnecting...");
+                await client.connect();
+                console.log("[MTProto] Reconnected");
+                needsCatchUp = true;
+            }
+
+            if (needsCatchUp && onGap) {
+                lastCatchUp = Date.now();
+                await onGap();
+            }
+        } catch (err: any) {
+            console.error("[MTProto] Reconnect failed:", err.message);
+        } finally {
+            busy = false;
+        }
+    }, REALTIME_CHECK_MS);
+}
+
+/**
+ * Check if a channel is handled by real-time updates (skip it in polling)
+ */
+export function isRealtimeChannel(channelUsername: string): boolean {
+    return realtimeChannels.has(channelUsername.toLowerCase());
 }
 
 /**
- * Check if real-time updates are supported (client connected + authenticated)
+ * Check if real-time updates are supported (at least one usable account)
  */
 export function isRealtimeSupported(): boolean {
-    return Boolean(client) && Boolean(sessionString);
+    return hasAccounts();
 }
 
@@ -0,0 +1,243 @@
+/**
+ * Outbox - Durable queue of posts waiting to go out
+ * Posts are sent one at a time with a minimum gap, held during quiet hours
+ * and retried with backoff. Posts that keep failing (or are rejected for
+ * good, e.g. the bot isn't admin of the target) become dead letters that
+ * can be retried from /outbox.
+ */
+
+import { GrammyError } from "grammy";
+import { config } from "./config";
+import { postMessage, sendAdminAlert, type PublishedPost } from "./bot";
+import { getValue, setValue, isStorageConfigured } from "./data/storage";
+import { recordMapping, hashSource } from "./data/post-map";
+import type { Route } from "./data/routing";
+import { releaseMessageMedia } from "./media-store";
+import type { TelegramMessage } from "./types";
+
+export interface OutboxItem {
+    id: string;
+    source: TelegramMessage;   // As scraped (for the post map and media cleanup)
+    message: TelegramMessage;  // What gets published (AI rewrite applied)
+    route: Route;
+    status: "pending" | "dead";
+    attempts: number;
+    queuedAt: string;
+    notBefore: string;         // Next attempt isn't made before this
+    lastError?: string;
+    deadAt?: string;
+}
+
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const TICK_MS = 5000;
+
+let outboxCache: OutboxItem[] = [];
+let lastSentAt = 0;
+let draining = false;
+let quietLogged = false;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Load the queue from Supabase (call on startup)
+ */
+export async function loadOutbox(): Promise<void> {
+    if (isStorageConfigured()) {
+        outboxCache = await getValue<OutboxItem[]>("outbox", []);
+        const dead = outboxCache.filter((i) => i.status === "dead").length;
+        console.log("[Outbox] Loaded", outboxCache.length - dead, "queued posts and", dead, "dead letters");
+    }
+}
+
+/**
+ * Start sending queued posts in the background
+ */
+export function startOutbox(): void {
+    if (timer) return;
+    timer = setInterval(() => void drain(), TICK_MS);
+
+    const gap = config.postGapSeconds;
+    console.log(`[Outbox] Sending with a ${gap}s gap${config.quietHours ? `, quiet hours ${config.quietHours} (${config.timezone})` : ""}`);
+    void drain();
+}
+
+/**
+ * Queue a post for one target
+ */
+export async function enqueuePost(source: TelegramMessage, message: TelegramMessage, route: Route): Promise<void> {
+    const id = `${source.channel}:${source.id}:${route.chatId}`;
+    const now = new Date().toISOString();
+    outboxCache = outboxCache.filter((i) => i.id !== id);
+    outboxCache.push({
+        id,
+        source,
+        message,
+        route,
+        status: "pending",
+        attempts: 0,
+        queuedAt: now,
+        notBefore: now,
+    });
+    await save();
+
+    console.log(`[Outbox] 📥 Queued @${source.channel}/${source.id} for ${route.chatId} (${getPending().length} waiting)`);
+    void drain();
+}
+
+export function getPending(): OutboxItem[] {
+    return outboxCache.filter((i) => i.status === "pending");
+}
+
+export function getDeadLetters(): OutboxItem[] {
+    return outboxCache.filter((i) => i.status === "dead");
+}
+
+/**
+ * Put a dead letter back in the queue
+ */
+export async function retryDeadLetter(id: string): Promise<boolean> {
+    const item = outboxCache.find((i) => i.id === id && i.status === "dead");
+    if (!item) return false;
+
+    item.status = "pending";
+    item.attempts = 0;
+    item.deadAt = undefined;
+    item.notBefore = new Date().toISOString();
+    await save();
+
+    console.log(`[Outbox] 🔁 Retrying ${id}`);
+    void drain();
+    return true;
+}
+
+/**
+ * Drop a queued post or dead letter
+ */
+export async function discardPost(id: string): Promise<boolean> {
+    const item = outboxCache.find((i) => i.id === id);
+    if (!item) return false;
+
+    removeItem(item);
+    await save();
+    console.log(`[Outbox] 🗑️ Discarded ${id}`);
+    return true;
+}
+
+/**
+ * Whether a time falls in a "HH:MM-HH:MM" window (may wrap past midnight)
+ */
+export function inQuietHours(spec: string, date: Date = new Date(), timeZone: string = config.timezone): boolean {
+    const match = spec.match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+    if (!match) return false;
+
+    const [, h1, m1, h2, m2] = match.map(Number) as number[];
+    const start = h1! * 60 + m1!;
+    const end = h2! * 60 + m2!;
+
+    const parts = new Intl.DateTimeFormat("en-GB", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" })
+        .formatToParts(date);
+    const now = Number(parts.find((p) => p.type === "hour")?.value) * 60 + Number(parts.find((p) => p.type === "minute")?.value);
+
+    return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Send due posts, oldest first, while the gap and quiet hours allow
+ */
+async function drain(): Promise<void> {
+    if (draining) return;
+    draining = true;
+
+    try {
+        while (true) {
+            const now = Date.now();
+            const item = getPending().find((i) => Date.parse(i.notBefore) <= now);
+            if (!item) break;
+
+            if (config.quietHours && inQuietHours(config.quietHours)) {
+                if (!quietLogged) console.log(`[Outbox] 🌙 Quiet hours - holding ${getPending().length} post(s)`);
+                quietLogged = true;
+                break;
+            }
+            quietLogged = false;
+
+            if (now - lastSentAt < config.postGapSeconds * 1000) break;
+
+            await send(item);
+        }
+    } catch (err) {
+        console.error("[Outbox] Drain failed:", err);
+    } finally {
+        draining = false;
+    }
+}
+
+async function send(item: OutboxItem): Promise<void> {
+    const { source, route } = item;
+    item.attempts++;
+    lastSentAt = Date.now();
+
+    try {
+        const post = await postMessage(item.message, route.includeSource, route.chatId, route.profile);
+        // Nothing went out (media failed and there's no text to fall back to)
+        if (!post) throw new Error("Nothing could be sent");
+        console.log(`[Outbox] ✅ Posted @${source.channel}/${source.id} to ${route.chatId}`);
+        await recordPublished(source, post);
+        removeItem(item);
+    } catch (err: any) {
+        const reason = err instanceof GrammyError ? err.description : err.message || String(err);
+        // 400/403 won't fix themselves (bad chat, bot not admin, malformed post)
+        const permanent = err instanceof GrammyError && (err.error_code === 400 || err.error_code === 403);
+        item.lastError = reason;
+
+        if (permanent || item.attempts >= config.postMaxAttempts) {
+            item.status = "dead";
+            item.deadAt = new Date().toISOString();
+            console.error(`[Outbox] 💀 Giving up on @${source.channel}/${source.id} for ${route.chatId}: ${reason}`);
+            await sendAdminAlert(
+                `💀 Post from @${source.channel}/${source.id} to ${route.chatId} failed ${item.attempts}x\n` +
+                `Last error: ${reason}\nRetry or discard it at /outbox`
+            );
+        } else {
+            const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (item.attempts - 1), MAX_BACKOFF_MS);
+            item.notBefore = new Date(Date.now() + backoff).toISOString();
+            console.error(`[Outbox] Post ${item.id} failed (attempt ${item.attempts}), retrying in ${Math.round(backoff / 60000)} min: ${reason}`);
+        }
+    }
+
+    await save();
+}
+
+/**
+ * Remember where a source message was published (for edit/delete sync)
+ */
+async function recordPublished(source: TelegramMessage, post: PublishedPost): Promise<void> {
+    await recordMapping({
+        channel: source.channel,
+        sourceId: source.id,
+        sourceIds: source.albumIds || [source.id],
+        sourceHash: hashSource(source.html || source.text),
+        chatId: post.chatId,
+        messageIds: post.messageIds,
+        kind: post.kind,
+        postedAt: new Date().toISOString(),
+    });
+}
+
+/**
+ * Drop an item, freeing its local media once no other target needs it
+ */
+function removeItem(item: OutboxItem): void {
+    outboxCache = outboxCache.filter((i) => i !== item);
+
+    const sameSource = (i: OutboxItem) => i.source.channel === item.source.channel && i.source.id === item.source.id;
+    if (!outboxCache.some(sameSource)) {
+        releaseMessageMedia(item.source);
+    }
+}
+
+async function save(): Promise<void> {
+    if (isStorageConfigured()) {
+        await setValue("outbox", outboxCache);
+    }
+}
@@ -6,18 +6,18 @@
 import { join } from "path";
 import { writeFileSync, unlinkSync, existsSync, readFileSync } from "fs";
 import { config } from "./config";
+import { fetchBuffer } from "./http-client";
 
 /**
  * Download a file from URL to temp directory
  */
 export async function downloadFile(url: string, filename: string): Promise<string | null> {
     try {
-        const response = await fetch(url);
-        if (!response.ok) return null;
+        const buffer = await fetchBuffer(url);
+        if (!buffer) return null;
 
-        const buffer = await response.arrayBuffer();
         const filepath = join(config.mediaDir, filename);
-        writeFileSync(filepath, Buffer.from(buffer));
+        writeFileSync(filepath, buffer);
         return filepath;
     } catch (err) {
         console.error("[PDF Utils] Download failed:", err);
@@ -1,106 +1,224 @@
 import { config, getLastProcessed, setLastProcessed } from "./config";
-import { scrapeChannel, getNewMessages } from "./scraper";
-import { postMessage } from "./bot";
-import { evaluateContent, evaluateBatch, type AdminDecision, type BatchDecision } from "./ai-admin";
+import { scrapeChannel, getNewMessages, backfillChannel, isMessageDeleted, type BackfillRange } from "./scraper";
+import { editPublishedPost, deletePublishedPost, buildPostText } from "./bot";
+import { evaluateContent, evaluateBatch, describeExtras, shortenText, type AdminDecision, type BatchDecision } from "./ai-admin";
 import { isDuplicate, recordPost } from "./data/content-tracker";
-import { getPublicChannels, getMTProtoChannels } from "./data/channels";
-import { scrapeChannelMTProto } from "./mtproto-scraper";
+import { getChannel, getChannels, getMTProtoChannels, type ChannelConfig } from "./data/channels";
+import { getSourceSettings } from "./data/groups";
+import { resolveRoutes } from "./data/routing";
+import { enqueuePost } from "./outbox";
+import { submitForReview, isReviewConfigured, editDraft, resolveDraft } from "./review";
+import { trackDecision, getEntry, updateEntry, removeEntry } from "./queue";
+import {
+    findMappings,
+    getChannelMappings,
+    updateMapping,
+    removeMapping,
+    hashSource,
+    type PostMapping,
+} from "./data/post-map";
+import { scrapeChannelMTProto, startRealtimeUpdates, isRealtimeChannel } from "./mtproto-scraper";
+import { fetchFeed, getNewFeedItems } from "./rss";
+import { shouldCheck, getChannelHealth, recordSuccess, recordFailure, recordSkipped } from "./health";
+import { fetchWebSource, markRowSeen } from "./web-watcher";
+import { releaseMessageMedia } from "./media-store";
+import { sanitizeHtml, stripHtml, escapeHtml } from "./formatter";
+import { overflowStrategy, visibleLength, CAPTION_LIMIT } from "./caption-layout";
 import type { TelegramMessage } from "./types";
 
 const BATCH_SIZE = 4; // Max messages per AI batch call
 
+// Targets a message already went out in (found by dedup, before the AI runs)
+const duplicateTargets = new WeakMap<TelegramMessage, Set<string>>();
+
+// Feed items finished this run - the feed's marker moves once the run is done
+const finishedFeedItems = new WeakSet<TelegramMessage>();
+
 /**
  * Main poster function - fetches new messages and posts them
  * Uses batch processing for efficiency
+ * @param sources Sources to poll (default: every pollable source)
  */
-export async function runPoster(): Promise<void> {
+export async function runPoster(sources: ChannelConfig[] = getPollableSources()): Promise<void> {
     console.log("\n[Poster] Starting run...");
 
-    const lastProcessed = getLastProcessed();
-    const publicChannels = getPublicChannels();
-    const mtprotoChannels = getMTProtoChannels();
+    // Failing sources are retried with backoff (see health.ts)
+    const dueSources = sources.filter(s => isDue(s.username));
 
-    if (publicChannels.length === 0 && mtprotoChannels.length === 0) {
-        console.log("[Poster] No channels configured. Add channels at /channels");
+    if (dueSources.length === 0) {
+        if (getChannels().length === 0) {
+            console.log("[Poster] No channels configured. Add channels at /channels");
+        }
         return;
     }
 
     // ==========================================
     // PHASE 1: Collect ALL new messages from all channels
+    // Sources are fetched concurrently (bounded) and kept in priority order
     // ==========================================
-    const allMessages: TelegramMessage[] = [];
+    const ordered = [...dueSources].sort((a, b) => (b.priority || 0) - (a.priority || 0));
+    const collected = await mapWithConcurrency(ordered, config.pollConcurrency, collectFromSource);
+    const allMessages = collected.flat();
 
-    // Collect from public channels
-    for (const channel of publicChannels) {
-        try {
-            console.log(`[Poster] Checking @${channel}...`);
-            const messages = await scrapeChannel(channel);
+    if (allMessages.length === 0) {
+        console.log("[Poster] No new messages to process");
+        console.log("[Poster] Run complete\n");
+        return;
+    }
 
-            if (messages.length === 0) {
-                console.log(`[Poster] No messages found for @${channel}`);
-                continue;
-            }
+    console.log(`\n[Poster] Total new messages: ${allMessages.length}`);
 
-            const newMessages = getNewMessages(messages, lastProcessed[channel]);
-            if (newMessages.length > 0) {
-                console.log(`[Poster] Found ${newMessages.length} new message(s) for @${channel}`);
-                allMessages.push(...newMessages.reverse()); // oldest first
-            } else {
-                console.log(`[Poster] No new messages for @${channel}`);
-            }
-        } catch (err) {
-            console.error(`[Poster] Error fetching @${channel}:`, err);
-        }
-    }
+    await withPostingLock(() => processMessages(allMessages));
 
-    // Collect from MTProto channels
-    for (const channel of mtprotoChannels) {
-        try {
-            console.log(`[Poster] Checking @${channel} (MTProto)...`);
-            const messages = await scrapeChannelMTProto(channel);
+    console.log("\n[Poster] Run complete\n");
+}
+
+/**
+ * Every source the cron/scheduler should poll
+ * Channels on real-time updates don't need polling
+ */
+export function getPollableSources(): ChannelConfig[] {
+    return getChannels().filter(c => !(c.type === "mtproto" && isRealtimeChannel(c.username)));
+}
 
+/**
+ * Fetch new messages (oldest first) from one source and record its health
+ */
+async function collectFromSource(source: ChannelConfig): Promise<TelegramMessage[]> {
+    const channel = source.username;
+    const lastId = getLastProcessed()[channel];
+
+    try {
+        console.log(`[Poster] Checking ${describeSource(source)}...`);
+        let newMessages: TelegramMessage[];
+
+        if (source.type === "public") {
+            const messages = await scrapeChannel(channel, lastId);
             if (messages.length === 0) {
-                console.log(`[Poster] No messages found for @${channel}`);
-                continue;
+                await recordFailure(channel, "No messages found (preview may be disabled)");
+                return [];
             }
 
-            const newMessages = getNewMessages(messages, lastProcessed[channel]);
-            if (newMessages.length > 0) {
-                console.log(`[Poster] Found ${newMessages.length} new message(s) for @${channel}`);
-                allMessages.push(...newMessages.reverse());
-            } else {
-                console.log(`[Poster] No new messages for @${channel}`);
+            // Follow edits/deletes of posts we already published
+            await syncChannelEdits(channel, messages);
+            newMessages = getNewMessages(messages, lastId);
+        } else if (source.type === "mtproto") {
+            // First run only needs the latest message - avoid downloading 20 messages of media
+            // min_id fetches are empty when nothing is new, so empty isn't a failure here
+            const messages = await scrapeChannelMTProto(channel, lastId ? 20 : 1, lastId);
+            newMessages = getNewMessages(messages, lastId);
+            releaseUnused(messages, newMessages);
+        } else if (source.type === "rss") {
+            const messages = await fetchFeed(channel, source.url!);
+            if (messages.length === 0) {
+                await recordFailure(channel, "Feed has no items");
+                return [];
             }
-        } catch (err) {
-            console.error(`[Poster] Error fetching @${channel} (MTProto):`, err);
+            newMessages = getNewFeedItems(messages, lastId);
+        } else {
+            // Already diffed against seen rows
+            newMessages = await fetchWebSource(channel, source.url!, source.web!);
         }
+
+        await recordSuccess(channel, newMessages.length);
+        if (newMessages.length > 0) {
+            console.log(`[Poster] Found ${newMessages.length} new message(s) for ${describeSource(source)}`);
+        } else {
+            console.log(`[Poster] No new messages for ${describeSource(source)}`);
+        }
+        return newMessages.reverse(); // oldest first
+    } catch (err: any) {
+        console.error(`[Poster] Error fetching ${describeSource(source)}:`, err);
+        await recordFailure(channel, err.message || String(err));
+        return [];
     }
+}
 
-    if (allMessages.length === 0) {
-        console.log("[Poster] No new messages to process");
-        console.log("[Poster] Run complete\n");
-        return;
+function describeSource(source: ChannelConfig): string {
+    if (source.type === "public") return `@${source.username}`;
+    if (source.type === "mtproto") return `@${source.username} (MTProto)`;
+    return `${source.username} (${source.type})`;
+}
+
+/**
+ * Run fn over items with at most `limit` in flight, keeping result order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await fn(items[i]!);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+    return results;
+}
+
+// Runs that overlap (scheduler ticks, backfills, realtime) post one at a time
+let postingChain: Promise<void> = Promise.resolve();
+
+function withPostingLock(fn: () => Promise<void>): Promise<void> {
+    const run = postingChain.then(fn, fn);
+    postingChain = run.catch(() => {});
+    return run;
+}
+
+/**
+ * Backfill a public channel over an ID/date range and feed the result
+ * through the same dedup, AI and posting phases as a normal run
+ */
+export async function runBackfill(channel: string, range: BackfillRange): Promise<number> {
+    console.log(`\n[Poster] Starting backfill for @${channel}...`);
+
+    const messages = await backfillChannel(channel, range);
+    if (messages.length === 0) {
+        console.log("[Poster] Backfill found nothing");
+        return 0;
     }
 
-    console.log(`\n[Poster] Total new messages: ${allMessages.length}`);
+    await withPostingLock(() => processMessages(messages.reverse())); // oldest first
+
+    console.log(`[Poster] Backfill complete for @${channel}\n`);
+    return messages.length;
+}
 
+/**
+ * Phases 2-4: dedup, batch and post collected messages (oldest first)
+ */
+async function processMessages(allMessages: TelegramMessage[]): Promise<void> {
     // ==========================================
-    // PHASE 2: Filter duplicates
+    // PHASE 2: Filter duplicates (per target the message can be routed to)
     // ==========================================
     const uniqueMessages: TelegramMessage[] = [];
     for (const msg of allMessages) {
-        const dupeCheck = await isDuplicate(msg.text, msg.images.length, msg.images);
-        if (dupeCheck.isDupe) {
-            console.log(`[Poster] ⏭️ Skipping duplicate from @${msg.channel}: ${dupeCheck.reason}`);
-            setLastProcessed(msg.channel, msg.id);
+        const routes = resolveRoutes(msg.channel, msg.text);
+        const dupes = new Set<string>();
+        let reason = "";
+        for (const route of routes) {
+            const dupeCheck = await isDuplicate(msg.text, msg.images.length, msg.images, route.chatId);
+            if (dupeCheck.isDupe) {
+                dupes.add(route.chatId);
+                reason = dupeCheck.reason || "";
+            }
+        }
+
+        if (dupes.size === routes.length) {
+            console.log(`[Poster] ⏭️ Skipping duplicate from @${msg.channel}: ${reason}`);
+            await recordSkipped(msg.channel);
+            await finishMessage(msg);
         } else {
+            duplicateTargets.set(msg, dupes);
             uniqueMessages.push(msg);
         }
     }
 
     if (uniqueMessages.length === 0) {
         console.log("[Poster] All messages were duplicates");
-        console.log("[Poster] Run complete\n");
+        await advanceFeedMarkers(allMessages);
         return;
     }
 
@@ -108,8 +226,9 @@ export async function runPoster(): Promise<void> {
 
     // ==========================================
     // PHASE 3: Create batches (diverse channels, PDFs solo)
+    // Messages only share a batch if their groups share target and prompt
     // ==========================================
-    const batches = createDiverseBatches(uniqueMessages, BATCH_SIZE);
+    const batches = partitionBySettings(uniqueMessages).flatMap((msgs) => createDiverseBatches(msgs, BATCH_SIZE));
     console.log(`[Poster] Created ${batches.length} batch(es)`);
 
     // ==========================================
@@ -133,7 +252,39 @@ export async function runPoster(): Promise<void> {
         }
     }
 
-    console.log("\n[Poster] Run complete\n");
+    await advanceFeedMarkers(allMessages);
+}
+
+/**
+ * Move each feed's marker to its newest item handled this run
+ * GUIDs aren't ordered, so this happens once at the end rather than per item.
+ * It stops before the first unfinished item (its batch failed) so that one is
+ * fetched again next run - newer items that went out are caught by dedup
+ */
+async function advanceFeedMarkers(messages: TelegramMessage[]): Promise<void> {
+    const markers = new Map<string, string>();
+    const blocked = new Set<string>();
+    for (const msg of messages) {
+        if (blocked.has(msg.channel) || getChannel(msg.channel)?.type !== "rss") continue;
+        if (finishedFeedItems.has(msg)) markers.set(msg.channel, msg.id);
+        else blocked.add(msg.channel);
+    }
+    for (const [channel, id] of markers) {
+        await setLastProcessed(channel, id);
+    }
+}
+
+/**
+ * Split messages by effective group settings (target, AI prompt, source line)
+ */
+function partitionBySettings(messages: TelegramMessage[]): TelegramMessage[][] {
+    const parts = new Map<string, TelegramMessage[]>();
+    for (const msg of messages) {
+        const s = getSourceSettings(msg.channel);
+        const key = `${s.targetChannel}|${s.promptVariant || ""}|${s.includeSource}`;
+        parts.set(key, [...(parts.get(key) || []), msg]);
+    }
+    return [...parts.values()];
 }
 
 /**
@@ -197,18 +348,34 @@ function createDiverseBatches(messages: TelegramMessage[], maxBatchSize: number)
  */
 async function processSingleMessage(message: TelegramMessage): Promise<void> {
     const decision = await evaluateContent(
-        message.text,
+        message.html || message.text,
         message.images,
         message.channel,
-        message.documents // Pass documents for AI to suggest better filenames
+        message.documents, // Pass documents for AI to suggest better filenames
+        describeExtras(message),
+        getSourceSettings(message.channel).promptVariant
     );
 
     if (!decision.shouldPost) {
         console.log(`[Poster] AI skipped: ${decision.reason}`);
-        setLastProcessed(message.channel, message.id);
+        await recordSkipped(message.channel);
+        await trackDecision(message, decision, "skipped");
+        await finishMessage(message, true);
         return;
     }
 
+    const post = await shortenForCaption(message, applyDecision(message, decision), decision);
+    await publish(message, post, decision);
+    await finishMessage(message, true);
+}
+
+/**
+ * Build the message to publish from an AI decision
+ * AI output is sanitized into Telegram HTML so stray < or & can't break the post
+ */
+function applyDecision(message: TelegramMessage, decision: AdminDecision): TelegramMessage {
+    const html = sanitizeHtml(decision.transformedText || message.html || escapeHtml(message.text));
+
     // Apply AI-suggested filename if provided
     let transformedDocs = message.documents;
     if (decision.suggestedFilename && message.documents && message.documents.length > 0) {
@@ -218,15 +385,37 @@ async function processSingleMessage(message: TelegramMessage): Promise<void> {
         );
     }
 
-    const transformedMessage: TelegramMessage = {
+    return {
         ...message,
-        text: decision.transformedText || message.text,
+        text: stripHtml(html),
+        html,
         documents: transformedDocs,
     };
+}
 
-    await postMessageWithRetry(transformedMessage);
-    await recordPost(transformedMessage.text, message.channel, message.id, message.images);
-    setLastProcessed(message.channel, message.id);
+/**
+ * Have the AI shorten a rewrite that won't fit its caption, for message types
+ * whose media carries the details (see caption-layout.ts)
+ * Whatever still doesn't fit is split into caption + reply when sent
+ */
+async function shortenForCaption(source: TelegramMessage, message: TelegramMessage, decision: AdminDecision): Promise<TelegramMessage> {
+    if (overflowStrategy(message) !== "shorten") return message;
+
+    // The footer differs per target, so fit the longest one
+    const routes = resolveRoutes(source.channel, source.text, decision.category || null);
+    const longest = Math.max(...routes.map(r => visibleLength(buildPostText(message, r.includeSource, r.profile))));
+    if (longest <= CAPTION_LIMIT) return message;
+
+    const budget = CAPTION_LIMIT - (longest - visibleLength(message.html));
+    const shortened = budget > 0 ? await shortenText(message.html, budget) : null;
+    const html = shortened ? sanitizeHtml(shortened) : "";
+    if (!html || visibleLength(html) > budget) {
+        console.log(`[Poster] ✂️ Couldn't shorten @${source.channel}/${source.id} to ${budget} chars - the caption will be split`);
+        return message;
+    }
+
+    console.log(`[Poster] ✂️ Shortened @${source.channel}/${source.id} for its caption (${visibleLength(message.html)} → ${visibleLength(html)} chars)`);
+    return { ...message, html, text: stripHtml(html) };
 }
 
 /**
@@ -287,7 +476,7 @@ async function processBatch(messages: TelegramMessage[]): Promise<void> {
     console.log(`[Poster] Batch: ${messages.length} messages, ${uniqueMessages.length} unique (${messages.length - uniqueMessages.length} duplicates)`);
 
     // Get AI decisions for unique messages only
-    const uniqueDecisions = await evaluateBatch(uniqueMessages);
+    const uniqueDecisions = await evaluateBatch(uniqueMessages, getSourceSettings(messages[0]!.channel).promptVariant);
 
     // Map decisions back to all messages (including duplicates)
     const decisions: (AdminDecision | undefined)[] = new Array(messages.length);
@@ -310,92 +499,333 @@ async function processBatch(messages: TelegramMessage[]): Promise<void> {
 
         if (!decision || !decision.shouldPost) {
             console.log(`[Poster] AI skipped @${message.channel}/${message.id}: ${decision?.reason || 'No decision'}`);
-            setLastProcessed(message.channel, message.id);
+            await recordSkipped(message.channel);
+            if (decision) await trackDecision(message, decision, "skipped");
+            await finishMessage(message, Boolean(decision));
             continue;
         }
 
-        const transformedMessage: TelegramMessage = {
-            ...message,
-            text: decision.transformedText || message.text,
-        };
-
-        await postMessageWithRetry(transformedMessage);
-        await recordPost(transformedMessage.text, message.channel, message.id, message.images);
-        setLastProcessed(message.channel, message.id);
-
-        // Small delay between posts
-        if (i < messages.length - 1) {
-            await sleep(1000);
-        }
+        const post = await shortenForCaption(message, applyDecision(message, decision), decision);
+        await publish(message, post, decision);
+        await finishMessage(message, true);
     }
 }
 
 /**
- * Post a message with retry logic
+ * Queue for every target the routing rules pick (skipping ones it's a duplicate in)
+ * The outbox spaces, retries and sends them (see outbox.ts); sources with
+ * review on go to the review chat first (see review.ts)
  */
-async function postMessageWithRetry(
+async function publish(
+    source: TelegramMessage,
     message: TelegramMessage,
-    retries: number = 3
+    decision: AdminDecision,
+    review: boolean = true
 ): Promise<void> {
-    for (let i = 0; i < retries; i++) {
-        try {
-            await postMessage(message, config.includeSource);
-            console.log(`[Poster] ✅ Posted from @${message.channel}`);
-            return;
-        } catch (err: any) {
-            console.error(
-                `[Poster] Failed to post ${message.id} (attempt ${i + 1}):`,
-                err.message
-            );
-
-            if (i < retries - 1) {
-                await sleep(2000 * (i + 1));
-            }
+    const dupes = duplicateTargets.get(source);
+    const routes = resolveRoutes(source.channel, source.text, decision.category || null).filter((route) => {
+        if (!dupes?.has(route.chatId)) return true;
+        console.log(`[Poster] ⏭️ Already posted in ${route.chatId} - skipping that target`);
+        return false;
+    });
+    if (routes.length === 0) return;
+
+    let draftId: string | undefined;
+    if (review && getSourceSettings(source.channel).review && isReviewConfigured()) {
+        draftId = await submitForReview(source, message, routes, decision.reason);
+    } else {
+        for (const route of routes) {
+            await enqueuePost(source, message, route);
+            await recordPost(message.text, source.channel, source.id, source.images, route.chatId);
         }
     }
+    // Drafts count for dedup once approved (see resolveDraft)
+    await trackDecision(source, decision, draftId ? "review" : "queued", draftId);
+}
+
+// ==========================================
+// Review queue (/queue) actions
+// ==========================================
+
+/**
+ * Re-run the AI admin on a message from the queue
+ * (a waiting draft gets the new rewrite)
+ */
+export async function rerunDecision(id: string): Promise<boolean> {
+    const entry = getEntry(id);
+    if (!entry) return false;
+
+    const { source } = entry;
+    const decision = await evaluateContent(
+        source.html || source.text,
+        source.images,
+        source.channel,
+        source.documents,
+        describeExtras(source),
+        getSourceSettings(source.channel).promptVariant
+    );
+    await updateEntry(entry, { decision, by: "AI re-run" });
+
+    if (entry.status === "review" && entry.draftId && decision.shouldPost) {
+        await editDraft(entry.draftId, applyDecision(source, decision).html, "AI re-run");
+    }
+    return true;
 }
 
-function sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Publish a message from the queue with the admin's text
+ * Skipped and rejected messages are overridden; drafts are approved
+ */
+export async function publishFromQueue(id: string, html: string): Promise<boolean> {
+    const entry = getEntry(id);
+    if (!entry || entry.status === "queued") return false;
+
+    const decision: AdminDecision = { ...entry.decision, shouldPost: true, transformedText: html };
+
+    if (entry.status === "review" && entry.draftId) {
+        if (html !== entry.decision.transformedText) await editDraft(entry.draftId, html, "admin");
+        if (await resolveDraft(entry.draftId, "approve", "admin")) return true;
+    }
+
+    console.log(`[Poster] Publishing @${entry.source.channel}/${entry.source.id} from the review queue`);
+    await withPostingLock(() => publish(entry.source, applyDecision(entry.source, decision), decision, false));
+    return true;
 }
 
 /**
- * Process a message received in real-time from MTProto
- * This bypasses batch collection since we're handling messages instantly
+ * Drop a message from the queue (a waiting draft is rejected)
  */
-export async function processRealtimeMessage(message: TelegramMessage): Promise<void> {
-    console.log(`[Realtime] Processing message from @${message.channel}...`);
+export async function discardFromQueue(id: string): Promise<boolean> {
+    const entry = getEntry(id);
+    if (!entry || entry.status === "queued") return false;
 
-    // Check for duplicate
-    const dupeCheck = await isDuplicate(message.text, message.images.length, message.images);
-    if (dupeCheck.isDupe) {
-        console.log(`[Realtime] ⏭️ Skipping duplicate: ${dupeCheck.reason}`);
-        setLastProcessed(message.channel, message.id);
-        return;
+    if (entry.status === "review" && entry.draftId) {
+        await resolveDraft(entry.draftId, "reject", "admin");
     }
+    await removeEntry(entry);
+    return true;
+}
+
+// ==========================================
+// Edit / delete sync
+// ==========================================
+
+/**
+ * Compare a fresh scrape against our published posts
+ * Messages inside the scraped ID range that vanished were deleted (confirmed
+ * on the message's own page first)
+ */
+async function syncChannelEdits(channel: string, messages: TelegramMessage[]): Promise<void> {
+    const mappings = getChannelMappings(channel);
+    if (mappings.length === 0 || messages.length === 0) return;
+
+    const ids = messages.map(m => parseInt(m.id));
+    const newest = Math.max(...ids);
+    const oldest = Math.min(...ids);
+    const scrapedIds = new Set(messages.flatMap(m => m.albumIds || [m.id]));
+
+    for (const mapping of mappings) {
+        const sourceId = parseInt(mapping.sourceId);
+        if (sourceId < oldest || sourceId > newest) continue;
+
+        const current = messages.find(m => m.id === mapping.sourceId);
+        if (current) {
+            await handleSourceEdit(current);
+        } else if (!mapping.sourceIds.some(id => scrapedIds.has(id))) {
+            if (await isMessageDeleted(channel, mapping.sourceId)) {
+                await handleSourceDelete(channel, mapping.sourceIds);
+            } else {
+                console.log(`[Sync] @${channel}/${mapping.sourceId} is missing from the page but still exists - keeping our post`);
+            }
+        }
+    }
+}
+
+/**
+ * A source message changed - re-run the AI admin and edit our posts in every target
+ */
+async function handleSourceEdit(message: TelegramMessage): Promise<void> {
+    const sourceHash = hashSource(message.html || message.text);
+    const mappings = findMappings(message.channel, message.id).filter(m => m.sourceHash !== sourceHash);
+    if (mappings.length === 0) return;
+
+    console.log(`[Sync] ✏️ @${message.channel}/${message.id} was edited - re-evaluating`);
 
-    // Evaluate with AI
     const decision = await evaluateContent(
-        message.text,
+        message.html || message.text,
         message.images,
-        message.channel
+        message.channel,
+        message.documents,
+        describeExtras(message),
+        getSourceSettings(message.channel).promptVariant
     );
 
-    if (!decision.shouldPost) {
-        console.log(`[Realtime] AI skipped: ${decision.reason}`);
-        setLastProcessed(message.channel, message.id);
-        return;
+    const edited = applyDecision(message, decision);
+    const routes = resolveRoutes(message.channel, message.text, decision.category || null);
+
+    for (const mapping of mappings) {
+        if (!decision.shouldPost) {
+            console.log(`[Sync] AI rejects the edited version: ${decision.reason}`);
+            if (getChannel(message.channel)?.followDeletes && await deletePublishedPost(mapping)) {
+                await removeMapping(mapping);
+                console.log(`[Sync] 🗑️ Deleted our post in ${mapping.chatId} for @${message.channel}/${message.id}`);
+            } else {
+                await updateMapping(mapping, { sourceHash });
+            }
+            continue;
+        }
+
+        // A post stays where it was published even if the edit would route it elsewhere
+        const route = routes.find(r => r.chatId === mapping.chatId);
+        const includeSource = route?.includeSource ?? getSourceSettings(message.channel).includeSource;
+        if (await editPublishedPost(mapping, edited, includeSource, route?.profile)) {
+            await updateMapping(mapping, { sourceHash, editedAt: new Date().toISOString() });
+            console.log(`[Sync] ✅ Updated our post in ${mapping.chatId} for @${message.channel}/${message.id}`);
+        }
     }
+}
 
-    // Post with transformed content
-    const transformedMessage: TelegramMessage = {
-        ...message,
-        text: decision.transformedText || message.text,
-    };
+/**
+ * Source messages were deleted - follow if the channel's policy says so
+ */
+async function handleSourceDelete(channel: string, ids: string[]): Promise<void> {
+    const handled = new Set<PostMapping>();
+
+    for (const mapping of ids.flatMap(id => findMappings(channel, id))) {
+        if (handled.has(mapping)) continue;
+        handled.add(mapping);
+        const id = mapping.sourceId;
 
-    await postMessageWithRetry(transformedMessage);
-    await recordPost(transformedMessage.text, message.channel, message.id, message.images);
-    setLastProcessed(message.channel, message.id);
+        if (!getChannel(channel)?.followDeletes) {
+            console.log(`[Sync] @${channel}/${id} was deleted (not following deletes for this channel)`);
+            await removeMapping(mapping);
+            continue;
+        }
+
+        if (await deletePublishedPost(mapping)) {
+            await removeMapping(mapping);
+            console.log(`[Sync] 🗑️ @${channel}/${id} was deleted - removed our post`);
+        }
+    }
+}
+
+/**
+ * Whether a source is due (logs when it's being held back by backoff)
+ */
+function isDue(channel: string): boolean {
+    if (shouldCheck(channel)) return true;
+    const health = getChannelHealth(channel);
+    console.log(`[Poster] Skipping ${channel} - failing, next check ${health?.nextCheckAt}`);
+    return false;
+}
+
+/**
+ * Mark a message as done: advance last processed and free its local media
+ * Queued messages keep their media until the outbox has sent them, skipped
+ * ones while they're listed on /queue (see queue.ts)
+ */
+async function finishMessage(message: TelegramMessage, keepMedia: boolean = false): Promise<void> {
+    const type = getChannel(message.channel)?.type;
+    if (type === "rss") {
+        finishedFeedItems.add(message);
+    } else if (type === "web") {
+        // Web rows have no order - seen rows are tracked instead
+        await markRowSeen(message.channel, message.id);
+    } else {
+        await setLastProcessed(message.channel, message.id);
+    }
+    if (!keepMedia) releaseMessageMedia(message);
+}
+
+/**
+ * Start real-time mode for MTProto channels
+ * Subscribes to updates and catches up on anything missed since lastProcessed
+ */
+export async function startRealtimeMode(): Promise<boolean> {
+    const channels = getMTProtoChannels();
+    if (channels.length === 0) return false;
+
+    const started = await startRealtimeUpdates(channels, {
+        onNewMessage: processRealtimeMessage,
+        onEdit: handleSourceEdit,
+        onDelete: handleSourceDelete,
+        onGap: catchUpRealtime,
+    });
+    if (started) {
+        await catchUpRealtime();
+    }
+    return started;
+}
+
+/**
+ * Fill gaps in the real-time stream (startup, reconnects)
+ */
+async function catchUpRealtime(): Promise<void> {
+    const lastProcessed = getLastProcessed();
+    const allMessages: TelegramMessage[] = [];
+
+    for (const channel of getMTProtoChannels().filter(isRealtimeChannel)) {
+        try {
+            const lastId = lastProcessed[channel];
+            const messages = await scrapeChannelMTProto(channel, lastId ? 100 : 1, lastId);
+            const newMessages = getNewMessages(messages, lastId).filter(claimMessage);
+            releaseUnused(messages, newMessages);
+            if (newMessages.length > 0) {
+                console.log(`[Realtime] Catch-up found ${newMessages.length} missed message(s) for @${channel}`);
+                allMessages.push(...newMessages.reverse());
+            }
+        } catch (err) {
+            console.error(`[Realtime] Catch-up failed for @${channel}:`, err);
+        }
+    }
+
+    if (allMessages.length > 0) {
+        await withPostingLock(() => processMessages(allMessages));
+    }
+}
+
+/**
+ * Free the downloaded media of fetched messages that won't be processed
+ */
+function releaseUnused(fetched: TelegramMessage[], kept: TelegramMessage[]): void {
+    for (const message of fetched) {
+        if (!kept.includes(message)) releaseMessageMedia(message);
+    }
+}
+
+// Messages already picked up by real-time or catch-up (avoid double posting)
+const claimedMessages = new Set<string>();
+const MAX_CLAIMED = 1000;
+
+/**
+ * Claim a message for processing - false if already handled
+ */
+function claimMessage(message: TelegramMessage): boolean {
+    const key = `${message.channel}:${message.id}`;
+    if (claimedMessages.has(key)) return false;
+
+    claimedMessages.add(key);
+    if (claimedMessages.size > MAX_CLAIMED) {
+        const oldest = claimedMessages.values().next().value;
+        if (oldest) claimedMessages.delete(oldest);
+    }
+    return true;
+}
+
+/**
+ * Process a message received in real-time from MTProto
+ * This bypasses batch collection since we're handling messages instantly
+ */
+export async function processRealtimeMessage(message: TelegramMessage): Promise<void> {
+    const lastId = getLastProcessed()[message.channel];
+    if ((lastId && parseInt(message.id) <= parseInt(lastId)) || !claimMessage(message)) {
+        releaseMessageMedia(message);
+        return;
+    }
+
+    console.log(`[Realtime] Processing message from @${message.channel}...`);
+    await recordSuccess(message.channel, 1);
 
-    console.log(`[Realtime] ✅ Posted instantly from @${message.channel}`);
+    // Same dedup + AI + posting path as polled messages
+    await withPostingLock(() => processMessages([message]));
 }
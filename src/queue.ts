@@ -0,0 +1,101 @@
+/**
+ * Review Queue - Recent AI decisions, shown on /queue
+ * Every evaluated message is kept with the AI's decision and what happened
+ * to it, so admins can override skips, fix rewrites or re-run the AI
+ */
+
+import type { AdminDecision } from "./ai-admin";
+import { getValue, setValue, isStorageConfigured } from "./data/storage";
+import { releaseMessageMedia } from "./media-store";
+import type { TelegramMessage } from "./types";
+
+export interface QueueEntry {
+    id: string;                  // channel:sourceId
+    source: TelegramMessage;     // As scraped
+    decision: AdminDecision;     // Latest AI decision (transformedText may be edited)
+    status: "skipped" | "review" | "queued" | "rejected";
+    draftId?: string;            // Draft in the review chat (status "review")
+    decidedAt: string;
+    updatedAt?: string;
+    by?: string;                 // Who changed it last (admin / review chat user)
+}
+
+const MAX_ENTRIES = 100;
+
+let queueCache: QueueEntry[] = [];
+
+/**
+ * Load the queue from Supabase (call on startup)
+ */
+export async function loadQueue(): Promise<void> {
+    if (isStorageConfigured()) {
+        queueCache = await getValue<QueueEntry[]>("review_queue", []);
+        console.log("[Queue] Loaded", queueCache.length, "decisions");
+    }
+}
+
+/**
+ * Newest first
+ */
+export function getQueue(): QueueEntry[] {
+    return [...queueCache].reverse();
+}
+
+export function getEntry(id: string): QueueEntry | undefined {
+    return queueCache.find((e) => e.id === id);
+}
+
+/**
+ * Record the AI's decision for a message (replaces an older one for it)
+ */
+export async function trackDecision(
+    source: TelegramMessage,
+    decision: AdminDecision,
+    status: QueueEntry["status"],
+    draftId?: string
+): Promise<void> {
+    const id = `${source.channel}:${source.id}`;
+    queueCache = queueCache.filter((e) => e.id !== id);
+    queueCache.push({ id, source, decision, status, draftId, decidedAt: new Date().toISOString() });
+
+    if (queueCache.length > MAX_ENTRIES) {
+        queueCache.slice(0, -MAX_ENTRIES).forEach(releaseHeld);
+        queueCache = queueCache.slice(-MAX_ENTRIES);
+    }
+    await save();
+}
+
+/**
+ * Change an entry (e.g. after an admin action)
+ */
+export async function updateEntry(entry: QueueEntry, changes: Partial<QueueEntry>): Promise<void> {
+    Object.assign(entry, changes, { updatedAt: new Date().toISOString() });
+    await save();
+}
+
+/**
+ * The entry of a review draft (kept in sync with the review chat)
+ */
+export function findDraftEntry(draftId: string): QueueEntry | undefined {
+    return queueCache.find((e) => e.draftId === draftId);
+}
+
+export async function removeEntry(entry: QueueEntry): Promise<void> {
+    queueCache = queueCache.filter((e) => e !== entry);
+    releaseHeld(entry);
+    await save();
+}
+
+/**
+ * Skipped and rejected messages keep their media while listed (for thumbnails
+ * and "Post anyway") - free it once the entry leaves the queue
+ */
+function releaseHeld(entry: QueueEntry): void {
+    if (entry.status === "skipped" || entry.status === "rejected") releaseMessageMedia(entry.source);
+}
+
+async function save(): Promise<void> {
+    if (isStorageConfigured()) {
+        await setValue("review_queue", queueCache);
+    }
+}
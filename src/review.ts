@@ -0,0 +1,237 @@
+/**
+ * Review - Human approval before posting
+ * For sources with review on, the AI's draft goes to REVIEW_CHAT_ID (with its
+ * media) plus buttons to approve, reject, edit the text or post the original.
+ * Drafts are persisted, so buttons keep working after a restart.
+ */
+
+import { config } from "./config";
+import {
+    postMessage,
+    editPublishedPost,
+    deletePublishedPost,
+    startBotUpdates,
+    resolveChatId,
+    sendWithButtons,
+    editWithButtons,
+    askForReply,
+    type ButtonRows,
+    type PublishedPost,
+} from "./bot";
+import { getValue, setValue, isStorageConfigured } from "./data/storage";
+import type { Route, PublishProfile } from "./data/routing";
+import { enqueuePost } from "./outbox";
+import { recordPost } from "./data/content-tracker";
+import { findDraftEntry, updateEntry } from "./queue";
+import { releaseMessageMedia } from "./media-store";
+import { sanitizeHtml, stripHtml, escapeHtml } from "./formatter";
+import type { TelegramMessage } from "./types";
+
+export interface Draft {
+    id: string;
+    source: TelegramMessage;   // As scraped ("Post original" sends this)
+    message: TelegramMessage;  // AI rewrite, editable
+    routes: Route[];
+    reason: string;            // Why the AI wanted to post it
+    createdAt: string;
+    preview?: PublishedPost;   // The draft as it will look, in the review chat
+    controlsId?: number;       // Message carrying the buttons
+    editPromptId?: number;     // Prompt waiting for a reply with new text
+}
+
+export type ReviewAction = "approve" | "original" | "reject";
+
+// Callback data is limited to 64 bytes: "rv:<action>:<draft id>"
+const ACTIONS: Record<string, ReviewAction | "edit"> = { a: "approve", o: "original", r: "reject", e: "edit" };
+
+let draftsCache: Draft[] = [];
+let reviewChatId = "";  // REVIEW_CHAT_ID as the numeric ID updates carry
+
+/**
+ * Load pending drafts from Supabase (call on startup)
+ */
+export async function loadDrafts(): Promise<void> {
+    if (isStorageConfigured()) {
+        draftsCache = await getValue<Draft[]>("drafts", []);
+        console.log("[Review] Loaded", draftsCache.length, "pending drafts");
+    }
+}
+
+export function isReviewConfigured(): boolean {
+    return Boolean(config.reviewChatId);
+}
+
+/**
+ * Listen for review buttons and edit replies
+ */
+export async function startReview(): Promise<void> {
+    try {
+        reviewChatId = await resolveChatId(config.reviewChatId);
+    } catch (err: any) {
+        console.error(`[Review] Couldn't resolve ${config.reviewChatId} - buttons only work if it's a numeric chat ID:`, err.message);
+        reviewChatId = config.reviewChatId;
+    }
+    startBotUpdates({ onButton: handleButton, onReply: handleReply });
+    console.log(`[Review] Drafts go to ${config.reviewChatId}`);
+}
+
+export function getDrafts(): Draft[] {
+    return draftsCache;
+}
+
+/**
+ * Send a draft to the review chat instead of posting it, returns the draft ID
+ */
+export async function submitForReview(
+    source: TelegramMessage,
+    message: TelegramMessage,
+    routes: Route[],
+    reason: string
+): Promise<string> {
+    const draft: Draft = {
+        id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+        source,
+        message,
+        routes,
+        reason,
+        createdAt: new Date().toISOString(),
+    };
+
+    try {
+        draft.preview = (await postMessage(message, routes[0]?.includeSource ?? config.includeSource, config.reviewChatId, previewProfile(draft))) || undefined;
+    } catch (err: any) {
+        console.error("[Review] Failed to send the draft preview:", err.message);
+    }
+    try {
+        draft.controlsId = await sendWithButtons(config.reviewChatId, describeDraft(draft), buttons(draft), draft.preview?.messageIds[0]);
+    } catch (err: any) {
+        // Still saved - the draft can be published or discarded from /queue
+        console.error("[Review] Failed to send the draft buttons - it's only on /queue:", err.message);
+        if (draft.preview) await deletePublishedPost(draft.preview);
+        draft.preview = undefined;
+    }
+
+    draftsCache.push(draft);
+    await save();
+    console.log(`[Review] 📝 Draft ${draft.id} for @${source.channel}/${source.id} sent for review`);
+    return draft.id;
+}
+
+/**
+ * Approve, reject or post the original of a draft
+ * by = who decided (shown in the review chat)
+ */
+export async function resolveDraft(id: string, action: ReviewAction, by: string): Promise<boolean> {
+    const draft = draftsCache.find((d) => d.id === id);
+    if (!draft) return false;
+
+    draftsCache = draftsCache.filter((d) => d !== draft);
+    await save();
+
+    const entry = findDraftEntry(id);
+    if (action === "reject") {
+        // Listed drafts keep their media until the entry leaves /queue
+        if (!entry) releaseMessageMedia(draft.source);
+    } else {
+        const message = action === "original" ? draft.source : draft.message;
+        for (const route of draft.routes) {
+            await enqueuePost(draft.source, message, route);
+            await recordPost(message.text, draft.source.channel, draft.source.id, draft.source.images, route.chatId);
+        }
+    }
+
+    if (entry) await updateEntry(entry, { status: action === "reject" ? "rejected" : "queued", by });
+
+    const outcome = { approve: "✅ Approved", original: "📄 Original approved", reject: "❌ Rejected" }[action];
+    console.log(`[Review] ${outcome} draft ${id} (${by})`);
+    if (draft.controlsId) {
+        await editWithButtons(config.reviewChatId, draft.controlsId, `${describeDraft(draft)}\n\n<b>${outcome}</b> by ${escapeHtml(by)}`)
+            .catch((err) => console.error("[Review] Failed to update the review message:", err.message));
+    }
+    return true;
+}
+
+/**
+ * Replace a draft's text (HTML allowed) and refresh its preview
+ */
+export async function editDraft(id: string, html: string, by: string): Promise<boolean> {
+    const draft = draftsCache.find((d) => d.id === id);
+    if (!draft) return false;
+
+    const clean = sanitizeHtml(html);
+    draft.message = { ...draft.message, html: clean, text: stripHtml(clean) };
+    draft.editPromptId = undefined;
+    await save();
+
+    const entry = findDraftEntry(id);
+    if (entry) await updateEntry(entry, { decision: { ...entry.decision, transformedText: clean }, by });
+
+    if (draft.preview) {
+        await editPublishedPost(draft.preview, draft.message, draft.routes[0]?.includeSource ?? config.includeSource, previewProfile(draft));
+    }
+    if (draft.controlsId) {
+        await editWithButtons(config.reviewChatId, draft.controlsId, `${describeDraft(draft)}\n✏️ Edited by ${escapeHtml(by)}`, buttons(draft))
+            .catch((err) => console.error("[Review] Failed to update the review message:", err.message));
+    }
+    console.log(`[Review] ✏️ Draft ${id} edited (${by})`);
+    return true;
+}
+
+async function handleButton(chatId: string, data: string, user: string): Promise<string> {
+    const [prefix, code, id] = data.split(":");
+    const action = ACTIONS[code || ""];
+    if (prefix !== "rv" || !action || !id) return "";
+    if (chatId !== reviewChatId) return "Not allowed here";
+
+    const draft = draftsCache.find((d) => d.id === id);
+    if (!draft) return "Already handled";
+
+    if (action === "edit") {
+        draft.editPromptId = await askForReply(
+            config.reviewChatId,
+            "✏️ Reply to this message with the new text (<code>&lt;b&gt;</code>, <code>&lt;i&gt;</code> and links allowed)",
+            draft.controlsId
+        );
+        await save();
+        return "Reply with the new text";
+    }
+
+    await resolveDraft(id, action, user);
+    return action === "reject" ? "Rejected" : "Queued for posting";
+}
+
+async function handleReply(chatId: string, replyToId: number, text: string, user: string): Promise<void> {
+    if (chatId !== reviewChatId) return;
+
+    const draft = draftsCache.find((d) => d.editPromptId === replyToId);
+    if (draft) await editDraft(draft.id, text, user);
+}
+
+function describeDraft(draft: Draft): string {
+    const { source } = draft;
+    return `📝 <b>Draft</b> from @${escapeHtml(source.channel)}/${escapeHtml(source.id)} → ` +
+        draft.routes.map((r) => escapeHtml(r.chatId)).join(", ") +
+        `\n<i>AI: ${escapeHtml(draft.reason)}</i>` +
+        (draft.preview ? "" : `\n\n${draft.message.html || escapeHtml(draft.message.text)}`);
+}
+
+/**
+ * Show the first target's footer and link buttons, without pinning or muting the review chat
+ */
+function previewProfile(draft: Draft): PublishProfile {
+    const profile = draft.routes[0]?.profile;
+    return { footer: profile?.footer, buttons: profile?.buttons };
+}
+
+function buttons(draft: Draft): ButtonRows {
+    return [
+        [["✅ Approve", `rv:a:${draft.id}`], ["❌ Reject", `rv:r:${draft.id}`]],
+        [["✏️ Edit text", `rv:e:${draft.id}`], ["📄 Post original", `rv:o:${draft.id}`]],
+    ];
+}
+
+async function save(): Promise<void> {
+    if (isStorageConfigured()) {
+        await setValue("drafts", draftsCache);
+    }
+}
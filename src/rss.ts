@@ -0,0 +1,183 @@
+/**
+ * RSS/Atom Scraper - Turns feed items into TelegramMessage objects
+ * Item GUIDs are used as message IDs (and as last-processed markers)
+ */
+
+import * as cheerio from "cheerio";
+import type { Cheerio } from "cheerio";
+import type { Element } from "domhandler";
+import { htmlToTelegram, escapeHtml, stripHtml } from "./formatter";
+import { formatSize } from "./media-store";
+import { fetchText, resolveUrl, fileNameOf } from "./http-client";
+import type { TelegramMessage } from "./types";
+
+// Cap per run so a feed we lost our place in doesn't flood the channel
+const MAX_FEED_ITEMS = 20;
+
+/**
+ * Check that a URL is a readable RSS/Atom feed
+ */
+export async function validateFeed(url: string): Promise<{ valid: boolean; reason?: string }> {
+    try {
+        const items = await fetchFeed("validate", url);
+        return items.length > 0 ? { valid: true } : { valid: false, reason: "Feed has no items" };
+    } catch (err: any) {
+        return { valid: false, reason: err.message };
+    }
+}
+
+/**
+ * Fetch a feed and return its items as messages (newest first)
+ */
+export async function fetchFeed(channel: string, url: string): Promise<TelegramMessage[]> {
+    console.log(`[RSS] Fetching ${url}`);
+
+    const { text } = await fetchText(url, {
+        conditional: true,
+        headers: { Accept: "application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8" },
+    });
+
+    const messages = parseFeed(text, channel, url);
+
+    // Feeds are usually newest first, but not always - sort when dates exist
+    if (messages.every((m) => m.date)) {
+        messages.sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+    }
+
+    return messages;
+}
+
+/**
+ * Items newer than the last processed GUID
+ * If the GUID fell off the feed, everything (capped) is new
+ */
+export function getNewFeedItems(
+    messages: TelegramMessage[],
+    lastGuid: string | undefined
+): TelegramMessage[] {
+    if (!lastGuid) {
+        // First run - return only the latest item to avoid spam
+        return messages.slice(0, 1);
+    }
+
+    const idx = messages.findIndex((m) => m.id === lastGuid);
+    return messages.slice(0, idx === -1 ? MAX_FEED_ITEMS : idx);
+}
+
+/**
+ * Parse RSS 2.0 <item>s and Atom <entry>s
+ */
+function parseFeed(xml: string, channel: string, feedUrl: string): TelegramMessage[] {
+    const $ = cheerio.load(xml, { xml: true });
+    const messages: TelegramMessage[] = [];
+
+    $("item, entry").each((_, el) => {
+        const $item = $(el);
+
+        const title = $item.children("title").first().text().trim();
+        const $link = $item.children("link:not([rel='enclosure'])").first();
+        const link = resolveUrl($link.attr("href") || $link.text().trim(), feedUrl);
+        const body =
+            $item.children("content\\:encoded").first().text() ||
+            $item.children("content").first().text() ||
+            $item.children("description").first().text() ||
+            $item.children("summary").first().text();
+        const guid =
+            $item.children("guid").first().text().trim() ||
+            $item.children("id").first().text().trim() ||
+            link ||
+            title;
+        const date =
+            $item.children("pubDate").first().text().trim() ||
+            $item.children("published").first().text().trim() ||
+            $item.children("updated").first().text().trim();
+
+        if (!guid) return;
+
+        const bodyHtml = body ? htmlToTelegram(body) : "";
+        let html = title ? `<b>${escapeHtml(title)}</b>` : "";
+        if (bodyHtml && stripHtml(bodyHtml).trim() !== title) {
+            html += (html ? "\n\n" : "") + bodyHtml;
+        }
+
+        const message: TelegramMessage = {
+            id: guid,
+            text: stripHtml(html),
+            html,
+            date: date && !Number.isNaN(Date.parse(date)) ? new Date(date).toISOString() : "",
+            images: [],
+            videos: [],
+            documents: [],
+            links: link ? [link] : [],
+            channel,
+            sourceUrl: link || undefined,
+        };
+
+        addEnclosures($item, message, feedUrl);
+
+        // Images embedded in the item body (common for blogs without enclosures)
+        if (message.images.length === 0 && body) {
+            const src = resolveUrl(cheerio.load(body, null, false)("img").first().attr("src") || "", feedUrl);
+            if (src) message.images.push(src);
+        }
+
+        if (link) {
+            message.linkPreview = { url: link, title: title || undefined };
+        }
+
+        messages.push(message);
+    });
+
+    return messages;
+}
+
+/**
+ * Map <enclosure>, <media:content>/<media:thumbnail> and Atom
+ * rel="enclosure" links to images, videos, audio and documents
+ */
+function addEnclosures($item: Cheerio<Element>, message: TelegramMessage, feedUrl: string): void {
+    const enclosures: { url: string; type: string; length?: string }[] = [];
+
+    $item.children("enclosure, media\\:content").each((_, el) => {
+        const url = el.attribs.url;
+        if (url) {
+            enclosures.push({
+                url,
+                type: el.attribs.type || el.attribs.medium || "",
+                length: el.attribs.length || el.attribs.fileSize,
+            });
+        }
+    });
+    $item.children("link[rel='enclosure']").each((_, el) => {
+        if (el.attribs.href) {
+            enclosures.push({ url: el.attribs.href, type: el.attribs.type || "", length: el.attribs.length });
+        }
+    });
+
+    for (const enclosure of enclosures) {
+        const url = resolveUrl(enclosure.url, feedUrl);
+        if (!url) continue;
+        const type = enclosure.type.toLowerCase();
+        const ext = url.split("?")[0]!.split(".").pop()?.toLowerCase() || "";
+
+        if (type.startsWith("image") || /^(jpe?g|png|gif|webp)$/.test(ext)) {
+            message.images.push(url);
+        } else if (type.startsWith("video") || /^(mp4|mov|webm)$/.test(ext)) {
+            message.videos.push(url);
+        } else if (type.startsWith("audio") || /^(mp3|m4a|ogg|oga)$/.test(ext)) {
+            (message.audio ||= []).push({ url, voice: false });
+        } else {
+            const size = parseInt(enclosure.length || "");
+            message.documents.push({
+                url,
+                title: fileNameOf(url),
+                size: size > 0 ? formatSize(size) : undefined,
+            });
+        }
+    }
+
+    if (message.images.length === 0) {
+        const thumb = resolveUrl($item.children("media\\:thumbnail").first().attr("url") || "", feedUrl);
+        if (thumb) message.images.push(thumb);
+    }
+}
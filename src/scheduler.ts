@@ -0,0 +1,67 @@
+/**
+ * Scheduler - Polls each source on its own cadence
+ * Sources without an interval (own or group's) follow CRON_SCHEDULE; the
+ * rest are checked every minute and polled once their interval has passed
+ */
+
+import cron from "node-cron";
+import { config } from "./config";
+import { runPoster, getPollableSources } from "./poster";
+import { getSourceSettings } from "./data/groups";
+import type { ChannelConfig } from "./data/channels";
+
+// source -> last time a poll started
+const lastPolled = new Map<string, number>();
+// Sources with a poll in flight (a slow source isn't queued twice)
+const inFlight = new Set<string>();
+
+/**
+ * Start the default cron and the per-source interval tick
+ */
+export function startScheduler(): void {
+    console.log(`[Scheduler] Cron: ${config.cronSchedule} (sources without their own interval)`);
+
+    cron.schedule(config.cronSchedule, () => {
+        pollSources(getPollableSources().filter((s) => !intervalOf(s)));
+    });
+
+    cron.schedule("* * * * *", () => {
+        const now = Date.now();
+        pollSources(
+            getPollableSources().filter((s) => {
+                const minutes = intervalOf(s);
+                return minutes && now - (lastPolled.get(s.username) || 0) >= minutes * 60_000 - 5_000;
+            })
+        );
+    });
+}
+
+function intervalOf(source: ChannelConfig): number | undefined {
+    return getSourceSettings(source.username).intervalMinutes;
+}
+
+/**
+ * Poll sources right away (e.g. on startup)
+ */
+export async function pollNow(): Promise<void> {
+    await pollSources(getPollableSources());
+}
+
+async function pollSources(sources: ChannelConfig[]): Promise<void> {
+    const ready = sources.filter((s) => !inFlight.has(s.username));
+    if (ready.length === 0) return;
+
+    const now = Date.now();
+    for (const source of ready) {
+        inFlight.add(source.username);
+        lastPolled.set(source.username, now);
+    }
+
+    try {
+        await runPoster(ready);
+    } catch (err) {
+        console.error("[Scheduler] Poll failed:", err);
+    } finally {
+        for (const source of ready) inFlight.delete(source.username);
+    }
+}
@@ -1,11 +1,11 @@
-import * as cheerio from "cheerio";
+import { config } from "./config";
+import { recordSuccess, recordFailure } from "./health";
+import { request, fetchText } from "./http-client";
+import { parseChannelPage } from "./tme-parser";
 import type { TelegramMessage } from "./types";
 
 const BASE_URL = "https://t.me/s";
 
-// Cache of channels that have been validated
-const channelStatus: Map<string, { works: boolean; reason?: string }> = new Map();
-
 /**
  * Check if a channel supports web preview
  */
@@ -15,12 +15,7 @@ export async function validateChannel(
     const url = `${BASE_URL}/${channelUsername}`;
 
     try {
-        const response = await fetch(url, {
-            headers: {
-                "User-Agent":
-                    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-            },
-        });
+        const response = await request(url);
 
         if (!response.ok) {
             return { valid: false, reason: `HTTP ${response.status}` };
@@ -57,7 +52,11 @@ export async function validateChannels(
 
     for (const channel of channels) {
         const result = await validateChannel(channel);
-        channelStatus.set(channel, { works: result.valid, reason: result.reason });
+        if (result.valid) {
+            await recordSuccess(channel, 0);
+        } else {
+            await recordFailure(channel, result.reason || "Unknown");
+        }
 
         if (result.valid) {
             console.log(`  ✅ @${channel} - Web preview available`);
@@ -73,129 +72,157 @@ export async function validateChannels(
     return { working, failed };
 }
 
+export interface BackfillRange {
+    fromId?: string;
+    toId?: string;
+    fromDate?: string; // ISO date, inclusive
+    toDate?: string;   // ISO date, inclusive
+    maxPages?: number;
+}
+
 /**
  * Scrape messages from a public Telegram channel
+ * Walks back page by page (using the "before" cursor) until the page
+ * containing sinceId is reached or maxPages is hit. Newest first.
  */
 export async function scrapeChannel(
     channelUsername: string,
-    limit: number = 20
+    sinceId?: string,
+    maxPages: number = config.maxScrapePages
 ): Promise<TelegramMessage[]> {
-    // Check cached status
-    const status = channelStatus.get(channelUsername);
-    if (status && !status.works) {
-        console.log(`[Scraper] Skipping @${channelUsername} - ${status.reason}`);
-        return [];
-    }
+    const sinceNum = sinceId ? parseInt(sinceId) : NaN;
+    const messages = await walkPages(channelUsername, undefined, maxPages, (oldest) =>
+        isNaN(sinceNum) || parseInt(oldest.id) <= sinceNum
+    );
 
-    const url = `${BASE_URL}/${channelUsername}`;
+    // Empty pages are recorded as failures by the poster (health.ts)
+    if (messages.length === 0) {
+        console.log(`[Scraper] ⚠️ @${channelUsername} returned 0 messages - web preview may be disabled`);
+    } else {
+        console.log(`[Scraper] Found ${messages.length} messages from @${channelUsername}`);
+    }
 
-    console.log(`[Scraper] Fetching ${url}`);
+    return messages;
+}
 
-    const response = await fetch(url, {
-        headers: {
-            "User-Agent":
-                "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        },
+/**
+ * Backfill a public channel over an ID and/or date range (on demand)
+ * Returns messages inside the range, newest first
+ */
+export async function backfillChannel(
+    channelUsername: string,
+    range: BackfillRange
+): Promise<TelegramMessage[]> {
+    const fromId = range.fromId ? parseInt(range.fromId) : NaN;
+    const toId = range.toId ? parseInt(range.toId) : NaN;
+    const fromTime = range.fromDate ? new Date(range.fromDate).getTime() : NaN;
+    // Make the end date inclusive when only a day is given
+    const toTime = range.toDate
+        ? new Date(range.toDate).getTime() + (range.toDate.length <= 10 ? 24 * 60 * 60 * 1000 - 1 : 0)
+        : NaN;
+
+    console.log(`[Scraper] Backfilling @${channelUsername} (ids ${range.fromId || "*"}..${range.toId || "*"}, dates ${range.fromDate || "*"}..${range.toDate || "*"})`);
+
+    const before = isNaN(toId) ? undefined : String(toId + 1);
+    const messages = await walkPages(
+        channelUsername,
+        before,
+        range.maxPages ?? config.maxBackfillPages,
+        (oldest) => {
+            if (!isNaN(fromId) && parseInt(oldest.id) <= fromId) return true;
+            if (!isNaN(fromTime) && oldest.date && new Date(oldest.date).getTime() < fromTime) return true;
+            return false;
+        }
+    );
+
+    const inRange = messages.filter((m) => {
+        const id = parseInt(m.id);
+        if (!isNaN(fromId) && id < fromId) return false;
+        if (!isNaN(toId) && id > toId) return false;
+        const time = m.date ? new Date(m.date).getTime() : NaN;
+        if (!isNaN(time)) {
+            if (!isNaN(fromTime) && time < fromTime) return false;
+            if (!isNaN(toTime) && time > toTime) return false;
+        }
+        return true;
     });
 
-    if (!response.ok) {
-        throw new Error(
-            `Failed to fetch channel ${channelUsername}: ${response.status}`
-        );
-    }
-
-    const html = await response.text();
-    const $ = cheerio.load(html);
+    console.log(`[Scraper] Backfill found ${inRange.length} messages from @${channelUsername}`);
+    return inRange;
+}
 
+/**
+ * Walk pages backwards from `before` until `reachedEnd` says the oldest
+ * message of a page is far enough back, or the page cap is hit
+ */
+async function walkPages(
+    channelUsername: string,
+    before: string | undefined,
+    maxPages: number,
+    reachedEnd: (oldest: TelegramMessage) => boolean
+): Promise<TelegramMessage[]> {
+    const seen = new Set<string>();
     const messages: TelegramMessage[] = [];
 
-    // Each message is in a .tgme_widget_message_wrap
-    $(".tgme_widget_message_wrap").each((_, element) => {
-        try {
-            const $msg = $(element);
-            const $bubble = $msg.find(".tgme_widget_message");
-
-            // Get message ID from data attribute
-            const dataPost = $bubble.attr("data-post") || "";
-            const id = dataPost.split("/").pop() || "";
-
-            if (!id) return;
-
-            // Get text content
-            const $text = $bubble.find(".tgme_widget_message_text");
-            const text = $text.text().trim();
-            const html = $text.html() || "";
-
-            // Get date
-            const $date = $bubble.find(".tgme_widget_message_date time");
-            const date = $date.attr("datetime") || "";
-
-            // Get images
-            const images: string[] = [];
-            $bubble.find(".tgme_widget_message_photo_wrap").each((_, img) => {
-                const style = $(img).attr("style") || "";
-                const match = style.match(/url\(['"]?(.*?)['"]?\)/);
-                if (match && match[1]) {
-                    images.push(match[1]);
-                }
-            });
-
-            // Get videos (poster images as we can't easily get video URLs)
-            const videos: string[] = [];
-            $bubble.find("video").each((_, vid) => {
-                const src = $(vid).attr("src");
-                if (src) videos.push(src);
-            });
-
-            // Get links
-            const links: string[] = [];
-            $text.find("a").each((_, link) => {
-                const href = $(link).attr("href");
-                if (href && !href.startsWith("tg://")) {
-                    links.push(href);
-                }
-            });
-
-            // Get documents (PDFs, files)
-            const documents: { url: string; title: string; size?: string }[] = [];
-            $bubble.find(".tgme_widget_message_document_wrap").each((_, doc) => {
-                const $doc = $(doc);
-                const url = $doc.attr("href") || "";
-                const title = $doc.find(".tgme_widget_message_document_title").text().trim() || "document";
-                const size = $doc.find(".tgme_widget_message_document_extra").text().trim();
-                if (url) {
-                    documents.push({ url, title, size });
-                }
-            });
-
-            messages.push({
-                id,
-                text,
-                html,
-                date,
-                images,
-                videos,
-                documents,
-                links,
-                channel: channelUsername,
-            });
-        } catch (err) {
-            console.error("[Scraper] Error parsing message:", err);
+    for (let page = 0; page < maxPages; page++) {
+        const pageMessages = await fetchChannelPage(channelUsername, before);
+        if (pageMessages.length === 0) break;
+
+        for (const msg of pageMessages) {
+            if (seen.has(msg.id)) continue;
+            seen.add(msg.id);
+            messages.push(msg);
         }
-    });
 
-    // Sort by ID (newest first) and limit
-    messages.sort((a, b) => parseInt(b.id) - parseInt(a.id));
+        // Pages are sorted newest first, so the last one is the oldest
+        const oldest = pageMessages[pageMessages.length - 1]!;
+        if (reachedEnd(oldest)) break;
 
-    // Update cache if no messages found
-    if (messages.length === 0 && !status) {
-        channelStatus.set(channelUsername, { works: false, reason: "No messages found (preview may be disabled)" });
-        console.log(`[Scraper] ⚠️ @${channelUsername} returned 0 messages - web preview may be disabled`);
-    } else {
-        console.log(`[Scraper] Found ${messages.length} messages from @${channelUsername}`);
+        // No progress - we're at the start of the channel
+        if (before && parseInt(oldest.id) >= parseInt(before)) break;
+        before = oldest.id;
+
+        if (page === maxPages - 1) {
+            console.log(`[Scraper] ⚠️ @${channelUsername} hit page cap (${maxPages}) - older messages may be missed`);
+        } else {
+            await sleep(config.pageDelayMs);
+        }
     }
 
-    return messages.slice(0, limit);
+    messages.sort((a, b) => parseInt(b.id) - parseInt(a.id));
+    return messages;
+}
+
+/**
+ * Fetch and parse a single page of the web preview
+ */
+async function fetchChannelPage(
+    channelUsername: string,
+    before?: string
+): Promise<TelegramMessage[]> {
+    const url = before
+        ? `${BASE_URL}/${channelUsername}?before=${before}`
+        : `${BASE_URL}/${channelUsername}`;
+
+    console.log(`[Scraper] Fetching ${url}`);
+
+    // Only the newest page is worth a conditional request - older pages don't change often
+    const { text: html } = await fetchText(url, { conditional: !before });
+    return parseChannelPage(html, channelUsername);
+}
+
+/**
+ * Whether a message is really gone, checked on its own embed page
+ * (a message the page parser dropped mustn't count as deleted)
+ */
+export async function isMessageDeleted(channelUsername: string, messageId: string): Promise<boolean> {
+    try {
+        const { text: html } = await fetchText(`https://t.me/${channelUsername}/${messageId}?embed=1`);
+        return html.includes("tgme_widget_message_error");
+    } catch (err: any) {
+        console.warn(`[Scraper] Couldn't check @${channelUsername}/${messageId}:`, err.message);
+        return false;
+    }
 }
 
 /**
@@ -213,3 +240,8 @@ export function getNewMessages(
     const lastIdNum = parseInt(lastId);
     return messages.filter((m) => parseInt(m.id) > lastIdNum);
 }
+
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
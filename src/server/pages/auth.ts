@@ -1,5 +1,5 @@
 /**
- * Auth page - MTProto session generation with 2FA support
+ * Auth page - MTProto accounts (session pool) and login with 2FA support
  */
 export function getAuthPage(): string {
     return `<!DOCTYPE html>
@@ -9,11 +9,18 @@ input,button{width:100%;padding:10px;margin:10px 0;font-size:16px}
 button{background:#0088cc;color:white;border:none;cursor:pointer}
 .status{background:#f0f0f0;padding:10px;border-radius:5px;word-break:break-all}
 textarea{width:100%;height:80px;font-family:monospace;font-size:12px}
+.account{border:1px solid #ddd;border-radius:5px;padding:8px;margin:8px 0}
+.account .ok{color:green}.account .flood_wait{color:#c80}.account .logged_out{color:#c00}
+.account button{width:auto;padding:4px 10px;margin:0;font-size:13px;background:#c00;float:right}
 </style></head><body>
 <h2>Telegram Auth</h2>
 <p><a href="/">← Home</a></p>
+<h3>Accounts</h3>
+<div id="accounts"></div>
+<h3>Add / re-login account</h3>
 <div class="status" id="status"></div>
 <form id="phoneForm">
+  <input type="text" name="account" placeholder="Account name (e.g. main, backup)" value="main" pattern="[\\w-]+" required>
   <input type="tel" name="phone" placeholder="+91xxxxxxxxxx" required>
   <button type="submit">Send Code</button>
 </form>
@@ -26,7 +33,7 @@ textarea{width:100%;height:80px;font-family:monospace;font-size:12px}
   <button type="submit">Submit Password</button>
 </form>
 <div id="sessionDiv" style="display:none">
-  <p><strong>Copy this to SESSION_STRING env var:</strong></p>
+  <p><strong>Not saved - set SECRETS_KEY (and Supabase) to store sessions encrypted, or copy this to the SESSION_STRING env var:</strong></p>
   <textarea id="sessionStr" readonly></textarea>
   <button onclick="navigator.clipboard.writeText(document.getElementById('sessionStr').value);this.textContent='Copied!'">Copy</button>
 </div>
@@ -38,16 +45,39 @@ const twoFAForm = document.getElementById('twoFAForm');
 const sessionDiv = document.getElementById('sessionDiv');
 const sessionStr = document.getElementById('sessionStr');
 
-fetch('/auth/status').then(r=>r.json()).then(s=>{
-  if(!s.configured) status.textContent='API_ID and API_HASH not set';
-  else if(s.authenticated) status.textContent='✅ Already authenticated';
-  else status.textContent='Enter your phone number';
-});
+function loadStatus(message){
+  fetch('/auth/status').then(r=>r.json()).then(s=>{
+    if(message) status.textContent=message;
+    else if(!s.configured) status.textContent='API_ID and API_HASH not set';
+    else if(s.authenticated) status.textContent='✅ '+s.accounts.length+' account(s) - log in another one for failover';
+    else status.textContent='Enter an account name and your phone number';
+    document.getElementById('accounts').innerHTML=s.accounts.length?s.accounts.map(accountLine).join(''):'<p>No accounts yet</p>';
+  });
+}
+
+function accountLine(a){
+  let line='<div class="account">'+(a.fromEnv?'':'<button onclick="removeAccount(\\''+a.name+'\\')">Remove</button>')+
+    '<b>'+a.name+'</b> <span class="'+a.status+'">'+a.status.toUpperCase().replace('_',' ')+'</span>'+
+    (a.fromEnv?' <small>(SESSION_STRING)</small>':'')+
+    '<br><small>'+(a.connected?'connected':'not connected')+' · last used '+(a.lastUsed?new Date(a.lastUsed).toLocaleString():'never');
+  if(a.floodUntil) line+='<br>flood wait until '+new Date(a.floodUntil).toLocaleTimeString();
+  if(a.lastError) line+='<br>last error: '+a.lastError;
+  if(a.noAccess.length) line+='<br>no access: @'+a.noAccess.join(', @');
+  return line+'</small></div>';
+}
+
+async function removeAccount(name){
+  if(!confirm('Remove account "'+name+'"?')) return;
+  await fetch('/auth/remove',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({name})});
+  loadStatus();
+}
+
+loadStatus();
 
 phoneForm.onsubmit=async e=>{
   e.preventDefault();
   status.textContent='Sending code...';
-  const r=await fetch('/auth/start',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({phone:e.target.phone.value})});
+  const r=await fetch('/auth/start',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({phone:e.target.phone.value,account:e.target.account.value})});
   const d=await r.json();
   if(d.success){status.textContent='Code sent! Check Telegram';phoneForm.style.display='none';codeForm.style.display='block';}
   else status.textContent='Error: '+d.error;
@@ -59,7 +89,7 @@ codeForm.onsubmit=async e=>{
   const r=await fetch('/auth/verify',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({code:e.target.code.value})});
   const d=await r.json();
   if(d.success){
-    showSession(d.session);
+    loggedIn(d);
   } else if(d.needs2FA){
     status.textContent='2FA Required - Enter your Telegram password';
     codeForm.style.display='none';
@@ -75,19 +105,25 @@ twoFAForm.onsubmit=async e=>{
   const r=await fetch('/auth/2fa',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({password:e.target.password.value})});
   const d=await r.json();
   if(d.success){
-    showSession(d.session);
+    loggedIn(d);
   } else {
     status.textContent='Error: '+d.error;
   }
 };
 
-function showSession(session){
-  status.textContent='✅ Success! Copy the session string below and add to SESSION_STRING env var, then redeploy.';
-  phoneForm.style.display='none';
+function loggedIn(d){
   codeForm.style.display='none';
   twoFAForm.style.display='none';
-  sessionDiv.style.display='block';
-  sessionStr.value=session;
+  if(d.saved){
+    loadStatus('✅ Logged in - session saved encrypted, nothing to copy');
+    phoneForm.reset();
+    phoneForm.style.display='block';
+  } else {
+    loadStatus('⚠️ Logged in for this run only');
+    phoneForm.style.display='none';
+    sessionDiv.style.display='block';
+    sessionStr.value=d.session;
+  }
 }
 </script></body></html>`;
 }
@@ -11,37 +11,116 @@ button{background:#0088cc;color:white;border:none;cursor:pointer}
 .channel{display:flex;justify-content:space-between;align-items:center;padding:10px;margin:5px 0;background:#f5f5f5;border-radius:5px}
 .public{border-left:4px solid #4CAF50}
 .mtproto{border-left:4px solid #9C27B0}
+.rss{border-left:4px solid #FF9800}
+.web{border-left:4px solid #607D8B}
+.health{display:block;color:#666;font-size:12px}
+.dark{color:#cc0000}
+.failing{color:#e67e00}
 h3{margin-top:30px}
+.tag{display:inline-block;background:#e0e0e0;border-radius:3px;padding:0 4px;margin-right:3px;font-size:11px}
+.group{padding:6px;margin:5px 0;background:#f5f5f5;border-radius:5px}
 </style></head><body>
 <h2>Manage Source Channels</h2>
-<p><a href="/">← Home</a> | <a href="/auth">Auth</a></p>
+<p><a href="/">← Home</a> | <a href="/auth">Auth</a> | <a href="/routing">Routing</a></p>
 
 <h3>Add Channel</h3>
 <form id="addForm">
-  <input type="text" name="username" placeholder="@channel or t.me/channel link" style="width:250px" required>
+  <input type="text" name="username" placeholder="@channel, t.me link or feed URL" style="width:250px" required>
   <select name="type">
     <option value="public">Public (web scrape)</option>
     <option value="mtproto">Private (MTProto)</option>
+    <option value="rss">RSS/Atom feed (URL)</option>
   </select>
   <button type="submit">Add</button>
 </form>
 
+<h3>Watch a Website</h3>
+<form id="webForm">
+  <input type="text" name="name" placeholder="name (e.g. rpsc-notices)" required>
+  <input type="url" name="url" placeholder="page URL" style="width:250px" required><br>
+  <input type="text" name="rowSelector" placeholder="row selector (table tr)" required>
+  <input type="text" name="titleSelector" placeholder="title selector (optional)"><br>
+  <input type="text" name="linkSelector" placeholder="link selector (optional)">
+  <input type="text" name="dateSelector" placeholder="date selector (optional)">
+  <button type="submit">Add</button>
+</form>
+
 <h3>Current Channels</h3>
+<label>Filter by tag <select id="tagFilter" onchange="render()"><option value="">all</option></select></label>
 <div id="list">Loading...</div>
 
+<h3>Groups</h3>
+<p><small>Shared settings for member channels: target channel, AI prompt variant, source line, polling cadence (a channel's own interval wins) and review before posting.</small></p>
+<div id="groups"></div>
+<form id="groupForm">
+  <input type="text" name="name" placeholder="new group name" required>
+  <button type="submit">Create Group</button>
+</form>
+
+<h3>Import / Export</h3>
+<p>Export: <a href="/channels/export?format=json">JSON</a> | <a href="/channels/export?format=csv">CSV</a></p>
+<form id="importForm">
+  <input type="file" name="file" accept=".json,.csv">
+  <select name="format">
+    <option value="json">JSON</option>
+    <option value="csv">CSV</option>
+  </select>
+  <button type="submit">Import</button>
+</form>
+<div id="importReport"></div>
+
+<h3>Backfill</h3>
+<form id="backfillForm">
+  <input type="text" name="username" placeholder="public channel" required>
+  <input type="text" name="fromId" placeholder="from ID" style="width:80px">
+  <input type="text" name="toId" placeholder="to ID" style="width:80px"><br>
+  <input type="date" name="fromDate" title="from date">
+  <input type="date" name="toDate" title="to date">
+  <button type="submit">Backfill</button>
+</form>
+
 <script>
 const list = document.getElementById('list');
+let channels = [], accounts = [], groups = [], promptVariants = [];
 
 async function load() {
-  const r = await fetch('/channels/list');
-  const channels = await r.json();
+  channels = await (await fetch('/channels/list')).json();
+  accounts = (await (await fetch('/auth/status')).json()).accounts.map(a => a.name);
+  ({groups, promptVariants} = await (await fetch('/groups/list')).json());
+
+  const tagFilter = document.getElementById('tagFilter');
+  const selected = tagFilter.value;
+  const tags = [...new Set(channels.flatMap(c => c.tags || []))].sort();
+  tagFilter.innerHTML = '<option value="">all</option>' + tags.map(t =>
+    '<option' + (t === selected ? ' selected' : '') + '>' + t + '</option>').join('');
+
+  render();
+  renderGroups();
+}
+
+function render() {
   if (channels.length === 0) {
     list.innerHTML = '<p>No channels configured. Add some above!</p>';
     return;
   }
-  list.innerHTML = channels.map(c => 
+  const tag = document.getElementById('tagFilter').value;
+  list.innerHTML = channels.filter(c => !tag || (c.tags || []).includes(tag)).map(c =>
     '<div class="channel ' + c.type + '">' +
-    '<span>@' + c.username + ' <small>(' + c.type + ')</small></span>' +
+    '<span>' + (c.type === 'rss' || c.type === 'web' ? '' : '@') + c.username + ' <small>(' + c.type + ')</small> ' +
+    (c.tags || []).map(t => '<span class="tag">' + t + '</span>').join('') +
+    healthLine(c.health) + '</span>' +
+    '<label title="comma-separated"> tags <input type="text" style="width:90px" value="' + (c.tags || []).join(', ') +
+    '" onchange="update(\\'' + c.username + '\\', {tags: this.value}).then(load)"></label>' +
+    groupSelect(c) +
+    '<label><input type="checkbox" ' + (c.followDeletes ? 'checked ' : '') +
+    'onchange="update(\\'' + c.username + '\\', {followDeletes: this.checked})"> follow deletes</label>' +
+    '<label title="send AI drafts to the review chat instead of posting"><input type="checkbox" ' + (c.review ? 'checked ' : '') +
+    'onchange="update(\\'' + c.username + '\\', {review: this.checked})"> review</label>' +
+    '<label title="minutes between polls (blank = cron schedule)"> every <input type="number" min="1" style="width:50px" value="' +
+    (c.intervalMinutes || '') + '" onchange="update(\\'' + c.username + '\\', {intervalMinutes: this.value})"> min</label>' +
+    '<label title="higher is fetched and posted first"> priority <input type="number" style="width:50px" value="' +
+    (c.priority || 0) + '" onchange="update(\\'' + c.username + '\\', {priority: this.value})"></label>' +
+    (c.type === 'mtproto' ? accountSelect(c, accounts) : '') +
     '<button class="del" onclick="del(\\'' + c.username + '\\')">Remove</button>' +
     '</div>'
   ).join('');
@@ -73,6 +152,178 @@ document.getElementById('addForm').onsubmit = async e => {
   }
 };
 
+document.getElementById('webForm').onsubmit = async e => {
+  e.preventDefault();
+  const f = e.target;
+  const btn = f.querySelector('button');
+  btn.textContent = 'Checking...';
+  btn.disabled = true;
+
+  const r = await fetch('/channels/add-web', {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({
+      name: f.name.value, url: f.url.value, rowSelector: f.rowSelector.value,
+      titleSelector: f.titleSelector.value, linkSelector: f.linkSelector.value, dateSelector: f.dateSelector.value
+    })
+  });
+  const d = await r.json();
+  btn.textContent = 'Add';
+  btn.disabled = false;
+
+  if (d.success) {
+    f.reset();
+    load();
+  } else {
+    alert('Failed to add website:\\n' + (d.reason || 'duplicate name?'));
+  }
+};
+
+document.getElementById('importForm').file.onchange = e => {
+  const name = e.target.files[0]?.name || '';
+  if (name.endsWith('.csv')) e.target.form.format.value = 'csv';
+  if (name.endsWith('.json')) e.target.form.format.value = 'json';
+};
+
+document.getElementById('importForm').onsubmit = async e => {
+  e.preventDefault();
+  const f = e.target;
+  const file = f.file.files[0];
+  if (!file) return;
+  const btn = f.querySelector('button');
+  btn.textContent = 'Importing...';
+  btn.disabled = true;
+
+  const r = await fetch('/channels/import', {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({format: f.format.value, data: await file.text()})
+  });
+  const d = await r.json();
+  btn.textContent = 'Import';
+  btn.disabled = false;
+
+  const report = document.getElementById('importReport');
+  if (!d.success) {
+    report.innerHTML = '<p class="dark">Import failed: ' + d.error + '</p>';
+    return;
+  }
+  const icons = {added: '✅', exists: '➖', invalid: '❌'};
+  report.innerHTML = '<table>' + d.results.map(x =>
+    '<tr><td>' + x.row + '</td><td>' + icons[x.status] + ' ' + x.status + '</td><td>' + x.username + '</td><td><small>' + (x.reason || '') + '</small></td></tr>'
+  ).join('') + '</table>';
+  load();
+};
+
+document.getElementById('backfillForm').onsubmit = async e => {
+  e.preventDefault();
+  const f = e.target;
+  const r = await fetch('/channels/backfill', {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({
+      username: f.username.value,
+      fromId: f.fromId.value, toId: f.toId.value,
+      fromDate: f.fromDate.value, toDate: f.toDate.value
+    })
+  });
+  const d = await r.json();
+  alert(d.success ? 'Backfill started - check logs for progress' : 'Backfill failed:\\n' + d.error);
+};
+
+function healthLine(h) {
+  if (!h) return '<small class="health">not checked yet</small>';
+  const skip = h.messagesSeen ? Math.round(100 * h.messagesSkipped / h.messagesSeen) : 0;
+  const last = h.lastSuccess ? new Date(h.lastSuccess).toLocaleString() : 'never';
+  const history = (h.history || []).map(e => e.ok ? '●' : '○').join('');
+  let line = '<small class="health ' + h.status + '">' + h.status.toUpperCase() +
+    ' · last ok ' + last + ' · ' + h.messagesSeen + ' seen · ' + skip + '% skipped';
+  if (h.consecutiveFailures) {
+    line += '<br>' + h.consecutiveFailures + ' failure(s): ' + h.lastError +
+      (h.nextCheckAt ? ' · retry ' + new Date(h.nextCheckAt).toLocaleTimeString() : '');
+  }
+  return line + '<br><span title="recent checks, oldest first">' + history + '</span></small>';
+}
+
+function groupSelect(c) {
+  const options = ['<option value="">no group</option>'].concat(groups.map(g =>
+    '<option' + (g.name === c.group ? ' selected' : '') + '>' + g.name + '</option>'));
+  return '<label> group <select onchange="update(\\'' + c.username + '\\', {group: this.value})">' +
+    options.join('') + '</select></label>';
+}
+
+function renderGroups() {
+  document.getElementById('groups').innerHTML = groups.map((g, i) => {
+    const members = channels.filter(c => c.group === g.name).length;
+    const variants = ['<option value="">default prompt</option>'].concat(promptVariants.map(v =>
+      '<option' + (v === g.promptVariant ? ' selected' : '') + '>' + v + '</option>'));
+    const source = g.includeSource === undefined ? '' : String(g.includeSource);
+    return '<form class="group" onsubmit="saveGroup(event, ' + i + ')">' +
+      '<b>' + g.name + '</b> <small>(' + members + ' channel(s))</small><br>' +
+      '<input type="text" name="targetChannel" placeholder="target (default CHANNEL_ID)" value="' + (g.targetChannel || '') + '">' +
+      '<select name="promptVariant">' + variants.join('') + '</select><br>' +
+      '<select name="includeSource">' +
+      '<option value=""' + (source === '' ? ' selected' : '') + '>source line: default</option>' +
+      '<option value="true"' + (source === 'true' ? ' selected' : '') + '>source line: on</option>' +
+      '<option value="false"' + (source === 'false' ? ' selected' : '') + '>source line: off</option></select>' +
+      'every <input type="number" name="intervalMinutes" min="1" style="width:50px" value="' + (g.intervalMinutes || '') + '"> min ' +
+      '<label><input type="checkbox" name="review"' + (g.review ? ' checked' : '') + '> review</label> ' +
+      '<button type="submit">Save</button>' +
+      '<button type="button" class="del" onclick="deleteGroup(' + i + ')">Delete</button>' +
+      '</form>';
+  }).join('');
+}
+
+async function saveGroup(e, i) {
+  e.preventDefault();
+  const f = e.target;
+  await fetch('/groups/save', {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({
+      name: groups[i].name, targetChannel: f.targetChannel.value, promptVariant: f.promptVariant.value,
+      includeSource: f.includeSource.value, intervalMinutes: f.intervalMinutes.value, review: f.review.checked
+    })
+  });
+  load();
+}
+
+async function deleteGroup(i) {
+  if (!confirm('Delete group "' + groups[i].name + '"? Its channels go back to the defaults.')) return;
+  await fetch('/groups/remove', {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({name: groups[i].name})
+  });
+  load();
+}
+
+document.getElementById('groupForm').onsubmit = async e => {
+  e.preventDefault();
+  await fetch('/groups/save', {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({name: e.target.name.value})
+  });
+  e.target.reset();
+  load();
+};
+
+function accountSelect(c, accounts) {
+  const options = ['<option value="">any account</option>'].concat(accounts.map(a =>
+    '<option' + (a === c.account ? ' selected' : '') + '>' + a + '</option>'));
+  return '<label title="MTProto account to read with - others take over on flood waits / lost access"> via <select onchange="update(\\'' +
+    c.username + '\\', {account: this.value})">' + options.join('') + '</select></label>';
+}
+
+async function update(username, changes) {
+  await fetch('/channels/update', {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({username, ...changes})
+  });
+}
+
 async function del(username) {
   if (!confirm('Remove @' + username + '?')) return;
   await fetch('/channels/remove', {
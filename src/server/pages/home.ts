@@ -12,6 +12,9 @@ a:hover{background:#006699}
 <h2>🤖 TG Poster Bot</h2>
 <div class="status">✅ Running</div>
 <a href="/channels">📺 Manage Channels</a>
+<a href="/routing">🔀 Targets &amp; Routing</a>
+<a href="/queue">🧐 Review Queue</a>
+<a href="/outbox">📤 Outbox</a>
 <a href="/auth">🔐 MTProto Auth</a>
 <a href="/login">🔑 Admin Login</a>
 </body></html>`;
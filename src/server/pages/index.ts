@@ -5,3 +5,6 @@ export { getHomePage } from "./home";
 export { getLoginPage } from "./login";
 export { getAuthPage } from "./auth";
 export { getChannelsPage } from "./channels";
+export { getRoutingPage } from "./routing";
+export { getOutboxPage } from "./outbox";
+export { getQueuePage } from "./queue";
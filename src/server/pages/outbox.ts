@@ -0,0 +1,59 @@
+/**
+ * Outbox page - Posts waiting to go out and dead letters
+ */
+export function getOutboxPage(): string {
+    return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Outbox</title><style>
+body{font-family:sans-serif;max-width:600px;margin:50px auto;padding:20px}
+button{padding:4px 10px;margin-left:5px;font-size:13px;background:#0088cc;color:white;border:none;cursor:pointer;float:right}
+.del{background:#cc0000}
+.item{padding:8px;margin:5px 0;background:#f5f5f5;border-radius:5px;word-break:break-word}
+.dead{border-left:4px solid #cc0000}
+small{color:#666}
+h3{margin-top:30px}
+</style></head><body>
+<h2>Outbox</h2>
+<p><a href="/">← Home</a> | <a href="/channels">Channels</a> | <a href="/routing">Routing</a></p>
+<p><small id="settings"></small></p>
+
+<h3>Dead Letters</h3>
+<div id="dead">Loading...</div>
+
+<h3>Queued</h3>
+<div id="pending">Loading...</div>
+
+<script>
+function line(i, dead) {
+  return '<div class="item' + (dead ? ' dead' : '') + '">' +
+    '<button class="del" onclick="act(\\'discard\\', \\'' + i.id + '\\')">Discard</button>' +
+    (dead ? '<button onclick="act(\\'retry\\', \\'' + i.id + '\\')">Retry</button>' : '') +
+    '<b>@' + i.channel + '/' + i.sourceId + '</b> → ' + i.chatId + '<br>' +
+    '<small>' + i.preview.replace(/</g, '&lt;') + '</small><br>' +
+    '<small>queued ' + new Date(i.queuedAt).toLocaleString() + ' · ' + i.attempts + ' attempt(s)' +
+    (dead ? ' · gave up ' + new Date(i.deadAt).toLocaleString()
+      : Date.parse(i.notBefore) > Date.now() ? ' · next try ' + new Date(i.notBefore).toLocaleTimeString() : '') +
+    (i.lastError ? '<br>last error: ' + i.lastError : '') + '</small></div>';
+}
+
+async function load() {
+  const d = await (await fetch('/outbox/list')).json();
+  document.getElementById('settings').textContent = 'One post every ' + d.gapSeconds + 's' +
+    (d.quietHours ? ', nothing between ' + d.quietHours + ' (' + d.timezone + ')' : '');
+  document.getElementById('dead').innerHTML = d.dead.length ? d.dead.map(i => line(i, true)).join('') : '<p>None</p>';
+  document.getElementById('pending').innerHTML = d.pending.length ? d.pending.map(i => line(i, false)).join('') : '<p>Nothing waiting</p>';
+}
+
+async function act(action, id) {
+  if (action === 'discard' && !confirm('Discard this post?')) return;
+  await fetch('/outbox/' + action, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({id})
+  });
+  load();
+}
+
+load();
+setInterval(load, 10000);
+</script></body></html>`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Review queue page - Scraped messages next to the AI's decision
+ */
+export function getQueuePage(): string {
+    return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Review Queue</title><style>
+body{font-family:sans-serif;max-width:800px;margin:50px auto;padding:20px}
+button,select{padding:6px 10px;margin:5px 5px 0 0;font-size:13px}
+button{background:#0088cc;color:white;border:none;cursor:pointer}
+.del{background:#cc0000}
+.entry{padding:10px;margin:10px 0;background:#f5f5f5;border-radius:5px;border-left:4px solid #999}
+.skipped{border-left-color:#e67e00}.review{border-left-color:#9C27B0}.queued{border-left-color:#4CAF50}.rejected{border-left-color:#cc0000}
+.cols{display:flex;gap:10px}.cols>div{flex:1;min-width:0}
+.original{white-space:pre-wrap;font-size:13px;max-height:200px;overflow:auto;background:white;padding:6px}
+.thumbs img{height:70px;margin:4px 4px 0 0;border-radius:3px}
+textarea{width:100%;height:110px;font-size:13px;box-sizing:border-box}
+small{color:#666}
+</style></head><body>
+<h2>Review Queue</h2>
+<p><a href="/">← Home</a> | <a href="/channels">Channels</a> | <a href="/outbox">Outbox</a></p>
+<p><small>The latest AI decisions. Edit a rewrite and publish it (also overrides skips), re-run the AI or discard.
+Published posts go through routing and the outbox like any other. Media of skipped messages is kept while they're listed here.</small></p>
+<label>Show <select id="filter" onchange="render()">
+  <option value="">all</option>
+  <option value="skipped">skipped by AI</option>
+  <option value="review">waiting for review</option>
+  <option value="queued">queued / posted</option>
+  <option value="rejected">rejected</option>
+</select></label>
+<div id="list">Loading...</div>
+
+<script>
+let entries = [];
+
+function esc(s) {
+  return String(s || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+}
+
+function thumbs(e) {
+  const m = e.source;
+  const imgs = m.images.map((url, i) => url.startsWith('http') ? url
+    : '/queue/media?id=' + encodeURIComponent(e.id) + '&i=' + i);
+  const videoThumbs = (m.videoInfo || []).map(v => v.thumbnail).filter(t => t && t.startsWith('http'));
+  return '<div class="thumbs">' + imgs.concat(videoThumbs).map(src => '<img src="' + esc(src) + '" loading="lazy">').join('') + '</div>' +
+    (m.videos.length ? '<small>🎬 ' + m.videos.length + ' video(s)</small><br>' : '') +
+    m.documents.map(d => '<small>📎 ' + esc(d.title) + (d.size ? ' (' + esc(d.size) + ')' : '') + '</small><br>').join('') +
+    (m.poll ? '<small>📊 ' + esc(m.poll.question) + '</small><br>' : '');
+}
+
+function entryHtml(e, i) {
+  const d = e.decision;
+  const locked = e.status === 'queued';
+  const publishLabel = e.status === 'review' ? 'Approve &amp; post' : e.status === 'queued' ? 'Posted' : 'Post anyway';
+  return '<div class="entry ' + e.status + '">' +
+    '<b>@' + esc(e.source.channel) + '/' + esc(e.source.id) + '</b> · ' + e.status +
+    ' <small>' + new Date(e.updatedAt || e.decidedAt).toLocaleString() + (e.by ? ' by ' + esc(e.by) : '') + '</small>' +
+    '<div class="cols"><div>' +
+      '<small>Original</small><div class="original">' + esc(e.source.text || '(no text)') + '</div>' + thumbs(e) +
+    '</div><div>' +
+      '<small>AI: ' + (d.shouldPost ? '✅ post' : '❌ skip') + ' - ' + esc(d.reason) +
+      (d.category ? ' · ' + esc(d.category) : '') +
+      (d.suggestedFilename ? '<br>📝 filename: ' + esc(d.suggestedFilename) : '') + '</small>' +
+      '<textarea id="text' + i + '"' + (locked ? ' readonly' : '') + '>' + esc(d.transformedText) + '</textarea>' +
+    '</div></div>' +
+    (locked ? '<small>Waiting in / sent from the <a href="/outbox">outbox</a></small>' :
+      '<button onclick="act(\\'publish\\', ' + i + ')">' + publishLabel + '</button>' +
+      '<button onclick="act(\\'rerun\\', ' + i + ', this)">Re-run AI</button>' +
+      '<button class="del" onclick="act(\\'discard\\', ' + i + ')">Discard</button>') +
+    '</div>';
+}
+
+function render() {
+  const filter = document.getElementById('filter').value;
+  const shown = entries.map((e, i) => [e, i]).filter(([e]) => !filter || e.status === filter);
+  document.getElementById('list').innerHTML = shown.length
+    ? shown.map(([e, i]) => entryHtml(e, i)).join('')
+    : '<p>Nothing here yet - messages show up after the AI has looked at them</p>';
+}
+
+async function load() {
+  entries = await (await fetch('/queue/list')).json();
+  render();
+}
+
+async function act(action, i, button) {
+  const e = entries[i];
+  if (action === 'discard' && !confirm('Discard this message?')) return;
+  if (button) { button.disabled = true; button.textContent = 'Running...'; }
+
+  const r = await fetch('/queue/' + action, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({id: e.id, html: document.getElementById('text' + i).value})
+  });
+  const d = await r.json();
+  if (!d.success) alert('Could not ' + action + ' - it may have been handled already');
+  load();
+}
+
+load();
+</script></body></html>`;
+}
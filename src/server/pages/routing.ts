@@ -0,0 +1,143 @@
+// Publish profile inputs, shared by the target and rule forms
+const PROFILE_FIELDS = `<details><summary><small>Post options</small></summary>
+  <label><input type="checkbox" name="silent"> silent</label>
+  <label><input type="checkbox" name="protectContent"> protect content</label>
+  <label><input type="checkbox" name="buttons"> link buttons</label><br>
+  <input type="text" name="pinKeywords" placeholder="pin posts with (e.g. result, admit card)" style="width:90%"><br>
+  <textarea name="footer" placeholder="footer, e.g. 📢 {source} · {date} (replaces the source line)"></textarea>
+</details>`;
+
+/**
+ * Routing page - Target channels and the rules that pick them
+ */
+export function getRoutingPage(): string {
+    return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Targets & Routing</title><style>
+body{font-family:sans-serif;max-width:600px;margin:50px auto;padding:20px}
+input,button,select{padding:8px;margin:5px;font-size:14px}
+button{background:#0088cc;color:white;border:none;cursor:pointer}
+.del{background:#cc0000}
+.item{padding:8px;margin:5px 0;background:#f5f5f5;border-radius:5px}
+.item button{float:right;padding:4px 10px;margin:0}
+h3{margin-top:30px}
+textarea{width:90%;height:50px;margin:5px;font-size:13px}
+small{color:#666}
+</style></head><body>
+<h2>Targets &amp; Routing</h2>
+<p><a href="/">← Home</a> | <a href="/channels">Channels</a></p>
+
+<h3>Target Channels</h3>
+<p><small>The bot must be an admin in each target. Without matching rules, posts go to the source's group target or CHANNEL_ID.</small></p>
+<div id="targets">Loading...</div>
+<form id="targetForm">
+  <input type="text" name="name" placeholder="name (e.g. rpsc)" required>
+  <input type="text" name="chatId" placeholder="@channel or -100..." required>
+  <select name="includeSource">
+    <option value="">source line: default</option>
+    <option value="true">source line: on</option>
+    <option value="false">source line: off</option>
+  </select>
+  ${PROFILE_FIELDS}
+  <button type="submit">Save Target</button>
+</form>
+
+<h3>Rules</h3>
+<p><small>A rule matches when every field you fill matches (any of the comma-separated values). A post goes to the targets of every matching rule.</small></p>
+<div id="rules">Loading...</div>
+<form id="ruleForm">
+  <input type="text" name="sources" placeholder="sources (channel usernames)">
+  <input type="text" name="tags" placeholder="source tags"><br>
+  <input type="text" name="keywords" placeholder="keywords in the post">
+  <input type="text" name="categories" placeholder="AI categories"><br>
+  <input type="text" name="targets" placeholder="target names" required>
+  ${PROFILE_FIELDS}
+  <button type="submit">Add Rule</button>
+</form>
+<p><small id="hints"></small></p>
+<p><small>Post options: silent posts don't notify, protected ones can't be forwarded or saved, link buttons turn the post's links into
+"Download PDF" / "Official link" buttons. Footer placeholders: {source}, {channel}, {link}, {date}. A rule's options override its targets'.</small></p>
+
+<script>
+function esc(s) {
+  return String(s || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+}
+
+function describeProfile(p) {
+  if (!p) return '';
+  const parts = [];
+  if (p.silent) parts.push('silent');
+  if (p.protectContent) parts.push('protected');
+  if (p.buttons) parts.push('buttons');
+  if (p.pinKeywords) parts.push('pin: ' + p.pinKeywords.join(' | '));
+  if (p.footer) parts.push('footer: ' + p.footer);
+  return parts.length ? '<br><small>' + esc(parts.join(' · ')) + '</small>' : '';
+}
+
+function readProfile(f) {
+  return {
+    silent: f.silent.checked, protectContent: f.protectContent.checked, buttons: f.buttons.checked,
+    pinKeywords: f.pinKeywords.value, footer: f.footer.value
+  };
+}
+
+async function load() {
+  const d = await (await fetch('/routing/list')).json();
+
+  document.getElementById('targets').innerHTML = d.targets.length ? d.targets.map(t =>
+    '<div class="item"><button class="del" onclick="removeTarget(\\'' + t.name + '\\')">Remove</button>' +
+    '<b>' + t.name + '</b> → ' + t.chatId +
+    (t.includeSource === undefined ? '' : ' <small>(source line ' + (t.includeSource ? 'on' : 'off') + ')</small>') +
+    describeProfile(t.profile) + '</div>').join('') : '<p>No targets yet - everything goes to CHANNEL_ID</p>';
+
+  document.getElementById('rules').innerHTML = d.rules.length ? d.rules.map(r =>
+    '<div class="item"><button class="del" onclick="removeRule(\\'' + r.id + '\\')">Remove</button>' +
+    [['source', r.sources], ['tag', r.tags], ['keyword', r.keywords], ['category', r.categories]]
+      .filter(([, v]) => v && v.length).map(([k, v]) => k + ' = ' + v.join(' | ')).join(' AND ') +
+    (r.sources || r.tags || r.keywords || r.categories ? '' : 'everything') +
+    ' → <b>' + r.targets.join(', ') + '</b>' + describeProfile(r.profile) + '</div>').join('') : '<p>No rules yet</p>';
+
+  document.getElementById('hints').textContent =
+    'Categories: ' + d.categories.join(', ') + (d.tags.length ? ' · Tags in use: ' + d.tags.join(', ') : '');
+}
+
+async function post(url, data) {
+  const r = await fetch(url, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify(data)
+  });
+  const d = await r.json();
+  if (!d.success && d.error) alert(d.error);
+  load();
+  return d.success;
+}
+
+function removeTarget(name) {
+  if (confirm('Remove target "' + name + '"? Rules stop sending to it.')) post('/routing/targets/remove', {name});
+}
+
+function removeRule(id) {
+  post('/routing/rules/remove', {id});
+}
+
+document.getElementById('targetForm').onsubmit = async e => {
+  e.preventDefault();
+  const f = e.target;
+  if (await post('/routing/targets/save', {
+    name: f.name.value, chatId: f.chatId.value, includeSource: f.includeSource.value, profile: readProfile(f)
+  })) f.reset();
+};
+
+document.getElementById('ruleForm').onsubmit = async e => {
+  e.preventDefault();
+  const f = e.target;
+  const ok = await post('/routing/rules/save', {
+    sources: f.sources.value, tags: f.tags.value, keywords: f.keywords.value,
+    categories: f.categories.value, targets: f.targets.value, profile: readProfile(f)
+  });
+  if (ok) f.reset();
+};
+
+load();
+</script></body></html>`;
+}
@@ -2,10 +2,24 @@
  * Route handlers for the web server
  */
 import { IncomingMessage, ServerResponse } from "http";
-import { getHomePage, getLoginPage, getAuthPage, getChannelsPage } from "./pages";
+import { getHomePage, getLoginPage, getAuthPage, getChannelsPage, getRoutingPage, getOutboxPage, getQueuePage } from "./pages";
+import { readFileSync } from "fs";
 import { startAuth, completeAuth, complete2FA, getAuthStatus } from "../mtproto-scraper";
-import { getChannels, addChannel, removeChannel } from "../data/channels";
+import { removeAccount, getAccountNames, DEFAULT_ACCOUNT } from "../mtproto-pool";
+import { getChannels, getPublicChannels, addChannel, removeChannel, updateChannel } from "../data/channels";
+import { getGroups, getGroup, saveGroup, removeGroup } from "../data/groups";
+import { getTargets, getTarget, saveTarget, removeTarget, getRules, saveRule, removeRule, type PublishProfile } from "../data/routing";
+import { aiConfig } from "../ai-config";
 import { validateChannel } from "../scraper";
+import { validateFeed } from "../rss";
+import { validateWebSource, type WebSourceConfig } from "../web-watcher";
+import { runBackfill, rerunDecision, publishFromQueue, discardFromQueue } from "../poster";
+import { getQueue, getEntry } from "../queue";
+import { isLocalMedia } from "../media-store";
+import { getChannelHealth, clearHealth } from "../health";
+import { getPending, getDeadLetters, retryDeadLetter, discardPost } from "../outbox";
+import { config } from "../config";
+import { exportChannels, parseImport, importChannels, feedName, type TransferFormat } from "../channel-io";
 
 // Session management
 let sessionToken = "";
@@ -42,6 +56,32 @@ export async function parseBody(req: IncomingMessage): Promise<any> {
     });
 }
 
+// Array or comma-separated string -> trimmed, de-duplicated, lowercased list
+function parseList(value: unknown): string[] {
+    const items = Array.isArray(value) ? value : String(value || "").split(",");
+    return [...new Set(items.map((t) => String(t).trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Publish profile from a routing form, undefined when nothing is set
+ */
+function parseProfile(value: unknown): PublishProfile | undefined {
+    if (!value || typeof value !== "object") return undefined;
+    const body = value as Record<string, unknown>;
+    const flag = (v: unknown) => v === true || v === "true" ? true : undefined;
+
+    const pinKeywords = parseList(body.pinKeywords);
+    const footer = String(body.footer || "").trim();
+    const profile: PublishProfile = {
+        silent: flag(body.silent),
+        protectContent: flag(body.protectContent),
+        pinKeywords: pinKeywords.length > 0 ? pinKeywords : undefined,
+        footer: footer || undefined,
+        buttons: flag(body.buttons),
+    };
+    return Object.values(profile).some((v) => v !== undefined) ? profile : undefined;
+}
+
 /**
  * Main request handler
  */
@@ -103,7 +143,8 @@ export async function handleRequest(req: IncomingMessage, res: ServerResponse):
     // Start auth
     if (url === "/auth/start" && req.method === "POST") {
         const body = await parseBody(req);
-        const result = await startAuth(body.phone);
+        const account = String(body.account || DEFAULT_ACCOUNT).trim().replace(/[^\w-]/g, "") || DEFAULT_ACCOUNT;
+        const result = await startAuth(body.phone, account);
         res.writeHead(200, { "Content-Type": "application/json" });
         res.end(JSON.stringify(result));
         return;
@@ -127,6 +168,15 @@ export async function handleRequest(req: IncomingMessage, res: ServerResponse):
         return;
     }
 
+    // Remove an MTProto account from the pool
+    if (url === "/auth/remove" && req.method === "POST") {
+        const body = await parseBody(req);
+        const ok = await removeAccount(body.name);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok }));
+        return;
+    }
+
     // Channels page
     if (url === "/channels") {
         res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
@@ -137,13 +187,30 @@ export async function handleRequest(req: IncomingMessage, res: ServerResponse):
     // Channels API - list
     if (url === "/channels/list") {
         res.writeHead(200, { "Content-Type": "application/json" });
-        res.end(JSON.stringify(getChannels()));
+        res.end(JSON.stringify(getChannels().map(c => ({ ...c, health: getChannelHealth(c.username) }))));
         return;
     }
 
     // Channels API - add (with instant verification for public)
     if (url === "/channels/add" && req.method === "POST") {
         const body = await parseBody(req);
+
+        // RSS feeds are keyed by a name derived from the feed URL
+        if (body.type === "rss") {
+            const feedUrl = (body.username || "").trim();
+            const result = await validateFeed(feedUrl);
+            if (!result.valid) {
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ success: false, verified: false, reason: result.reason }));
+                return;
+            }
+
+            const ok = await addChannel(feedName(feedUrl), "rss", feedUrl);
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ success: ok, verified: true }));
+            return;
+        }
+
         const username = (body.username || "").replace(/^@/, "").replace(/^https?:\/\/(t\.me|telegram\.me)\//i, "").trim();
 
         // Verify public channels first
@@ -162,15 +229,368 @@ export async function handleRequest(req: IncomingMessage, res: ServerResponse):
         return;
     }
 
+    // Channels API - add a website watcher (URL + selectors)
+    if (url === "/channels/add-web" && req.method === "POST") {
+        const body = await parseBody(req);
+        const name = (body.name || "").trim();
+        const pageUrl = (body.url || "").trim();
+        const selectors: WebSourceConfig = {
+            rowSelector: (body.rowSelector || "").trim(),
+            titleSelector: (body.titleSelector || "").trim() || undefined,
+            linkSelector: (body.linkSelector || "").trim() || undefined,
+            dateSelector: (body.dateSelector || "").trim() || undefined,
+        };
+
+        if (!name || !pageUrl || !selectors.rowSelector) {
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ success: false, verified: false, reason: "Name, URL and row selector are required" }));
+            return;
+        }
+
+        const result = await validateWebSource(pageUrl, selectors);
+        if (!result.valid) {
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ success: false, verified: false, reason: result.reason }));
+            return;
+        }
+
+        const ok = await addChannel(name, "web", pageUrl, selectors);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok, verified: true }));
+        return;
+    }
+
+    // Channels API - export every source (?format=json|csv)
+    if (url.startsWith("/channels/export")) {
+        const format: TransferFormat = new URL(url, "http://localhost").searchParams.get("format") === "csv" ? "csv" : "json";
+        res.writeHead(200, {
+            "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+            "Content-Disposition": `attachment; filename="channels.${format}"`,
+        });
+        res.end(exportChannels(format));
+        return;
+    }
+
+    // Channels API - bulk import with a per-row report
+    if (url === "/channels/import" && req.method === "POST") {
+        const body = await parseBody(req);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        try {
+            const entries = parseImport(String(body.data || ""), body.format === "csv" ? "csv" : "json");
+            res.end(JSON.stringify({ success: true, results: await importChannels(entries) }));
+        } catch (err: any) {
+            res.end(JSON.stringify({ success: false, error: err.message }));
+        }
+        return;
+    }
+
     // Channels API - remove
     if (url === "/channels/remove" && req.method === "POST") {
         const body = await parseBody(req);
         const ok = await removeChannel(body.username);
+        if (ok) await clearHealth(body.username);
         res.writeHead(200, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ success: ok }));
         return;
     }
 
+    // Channels API - update per-channel settings
+    if (url === "/channels/update" && req.method === "POST") {
+        const body = await parseBody(req);
+        const changes: Parameters<typeof updateChannel>[1] = {};
+        if (body.followDeletes !== undefined) {
+            changes.followDeletes = body.followDeletes === true || body.followDeletes === "true";
+        }
+        if (body.intervalMinutes !== undefined) {
+            const minutes = parseInt(body.intervalMinutes);
+            changes.intervalMinutes = minutes > 0 ? minutes : undefined;
+        }
+        if (body.priority !== undefined) {
+            changes.priority = parseInt(body.priority) || 0;
+        }
+        if (body.account !== undefined) {
+            changes.account = getAccountNames().includes(body.account) ? body.account : undefined;
+        }
+        if (body.tags !== undefined) {
+            const tags = parseList(body.tags);
+            changes.tags = tags.length > 0 ? tags : undefined;
+        }
+        if (body.group !== undefined) {
+            changes.group = getGroup(body.group)?.name;
+        }
+        if (body.review !== undefined) {
+            changes.review = body.review === true || body.review === "true";
+        }
+        const ok = await updateChannel(body.username, changes);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok }));
+        return;
+    }
+
+    // Groups API - list (with the AI prompt variants to pick from)
+    if (url === "/groups/list") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ groups: getGroups(), promptVariants: Object.keys(aiConfig.promptVariants) }));
+        return;
+    }
+
+    // Groups API - create / update
+    if (url === "/groups/save" && req.method === "POST") {
+        const body = await parseBody(req);
+        const name = String(body.name || "").trim();
+        if (!name) {
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ success: false, error: "Group name is required" }));
+            return;
+        }
+
+        const interval = parseInt(body.intervalMinutes);
+        await saveGroup({
+            name,
+            targetChannel: String(body.targetChannel || "").trim() || undefined,
+            promptVariant: body.promptVariant || undefined,
+            includeSource: body.includeSource === "" || body.includeSource === undefined
+                ? undefined
+                : body.includeSource === true || body.includeSource === "true",
+            intervalMinutes: interval > 0 ? interval : undefined,
+            review: body.review === true || body.review === "true" || undefined,
+        });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true }));
+        return;
+    }
+
+    // Groups API - remove (members fall back to the defaults)
+    if (url === "/groups/remove" && req.method === "POST") {
+        const body = await parseBody(req);
+        const ok = await removeGroup(body.name);
+        if (ok) {
+            for (const c of getChannels().filter(c => c.group?.toLowerCase() === String(body.name).toLowerCase())) {
+                await updateChannel(c.username, { group: undefined });
+            }
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok }));
+        return;
+    }
+
+    // Routing page
+    if (url === "/routing") {
+        res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+        res.end(getRoutingPage());
+        return;
+    }
+
+    // Routing API - targets, rules and what rules can match on
+    if (url === "/routing/list") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({
+            targets: getTargets(),
+            rules: getRules(),
+            categories: aiConfig.categories,
+            tags: [...new Set(getChannels().flatMap(c => c.tags || []))].sort(),
+        }));
+        return;
+    }
+
+    // Routing API - create / update a target channel
+    if (url === "/routing/targets/save" && req.method === "POST") {
+        const body = await parseBody(req);
+        const name = String(body.name || "").trim();
+        const chatId = String(body.chatId || "").trim();
+        if (!name || !/^(@\w{4,}|-?\d+)$/.test(chatId)) {
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ success: false, error: "Name and a chat ID (@channel or -100...) are required" }));
+            return;
+        }
+
+        await saveTarget({
+            name,
+            chatId,
+            includeSource: body.includeSource === "" || body.includeSource === undefined
+                ? undefined
+                : body.includeSource === true || body.includeSource === "true",
+            profile: parseProfile(body.profile),
+        });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true }));
+        return;
+    }
+
+    // Routing API - remove a target (also dropped from rules)
+    if (url === "/routing/targets/remove" && req.method === "POST") {
+        const body = await parseBody(req);
+        const ok = await removeTarget(String(body.name || ""));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok }));
+        return;
+    }
+
+    // Routing API - create / update a rule
+    if (url === "/routing/rules/save" && req.method === "POST") {
+        const body = await parseBody(req);
+        const targets = parseList(body.targets).map(t => getTarget(t)?.name).filter((t): t is string => Boolean(t));
+        if (targets.length === 0) {
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ success: false, error: "Pick at least one existing target" }));
+            return;
+        }
+
+        const list = (value: unknown) => {
+            const items = parseList(value);
+            return items.length > 0 ? items : undefined;
+        };
+        await saveRule({
+            id: String(body.id || "") || Date.now().toString(36),
+            sources: list(body.sources)?.map(s => s.replace(/^@/, "")),
+            tags: list(body.tags),
+            keywords: list(body.keywords),
+            categories: list(body.categories),
+            targets,
+            profile: parseProfile(body.profile),
+        });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true }));
+        return;
+    }
+
+    // Routing API - remove a rule
+    if (url === "/routing/rules/remove" && req.method === "POST") {
+        const body = await parseBody(req);
+        const ok = await removeRule(String(body.id || ""));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok }));
+        return;
+    }
+
+    // Review queue page
+    if (url === "/queue") {
+        res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+        res.end(getQueuePage());
+        return;
+    }
+
+    // Review queue API - recent messages with the AI's decisions (newest first)
+    if (url === "/queue/list") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(getQueue()));
+        return;
+    }
+
+    // Review queue API - a message's downloaded (MTProto) image, for thumbnails
+    if (url.startsWith("/queue/media")) {
+        const params = new URL(url, "http://localhost").searchParams;
+        const path = getEntry(params.get("id") || "")?.source.images[parseInt(params.get("i") || "0")];
+        if (!path || !isLocalMedia(path)) {
+            res.writeHead(404);
+            res.end("Not found");
+            return;
+        }
+        res.writeHead(200, { "Content-Type": "image/jpeg" });
+        res.end(readFileSync(path));
+        return;
+    }
+
+    // Review queue API - re-run the AI admin
+    if (url === "/queue/rerun" && req.method === "POST") {
+        const body = await parseBody(req);
+        const ok = await rerunDecision(String(body.id || ""));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok, entry: getEntry(String(body.id || "")) }));
+        return;
+    }
+
+    // Review queue API - publish with the (edited) rewrite, overriding a skip
+    if (url === "/queue/publish" && req.method === "POST") {
+        const body = await parseBody(req);
+        const ok = await publishFromQueue(String(body.id || ""), String(body.html || ""));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok }));
+        return;
+    }
+
+    // Review queue API - discard (rejects a waiting draft)
+    if (url === "/queue/discard" && req.method === "POST") {
+        const body = await parseBody(req);
+        const ok = await discardFromQueue(String(body.id || ""));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok }));
+        return;
+    }
+
+    // Outbox page
+    if (url === "/outbox") {
+        res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+        res.end(getOutboxPage());
+        return;
+    }
+
+    // Outbox API - queued posts and dead letters (without the full messages)
+    if (url === "/outbox/list") {
+        const summary = (i: ReturnType<typeof getPending>[number]) => ({
+            id: i.id,
+            channel: i.source.channel,
+            sourceId: i.source.id,
+            chatId: i.route.chatId,
+            preview: i.message.text.slice(0, 120),
+            attempts: i.attempts,
+            queuedAt: i.queuedAt,
+            notBefore: i.notBefore,
+            lastError: i.lastError,
+            deadAt: i.deadAt,
+        });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({
+            pending: getPending().map(summary),
+            dead: getDeadLetters().map(summary),
+            gapSeconds: config.postGapSeconds,
+            quietHours: config.quietHours,
+            timezone: config.timezone,
+        }));
+        return;
+    }
+
+    // Outbox API - send a dead letter again
+    if (url === "/outbox/retry" && req.method === "POST") {
+        const body = await parseBody(req);
+        const ok = await retryDeadLetter(String(body.id || ""));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok }));
+        return;
+    }
+
+    // Outbox API - drop a queued post or dead letter
+    if (url === "/outbox/discard" && req.method === "POST") {
+        const body = await parseBody(req);
+        const ok = await discardPost(String(body.id || ""));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: ok }));
+        return;
+    }
+
+    // Channels API - backfill an ID/date range (runs in background)
+    if (url === "/channels/backfill" && req.method === "POST") {
+        const body = await parseBody(req);
+        const username = (body.username || "").replace(/^@/, "").trim();
+
+        if (!getPublicChannels().some(c => c.toLowerCase() === username.toLowerCase())) {
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ success: false, error: "Backfill only works for configured public channels" }));
+            return;
+        }
+
+        runBackfill(username, {
+            fromId: body.fromId || undefined,
+            toId: body.toId || undefined,
+            fromDate: body.fromDate || undefined,
+            toDate: body.toDate || undefined,
+        }).catch(err => console.error(`[Server] Backfill failed for @${username}:`, err.message));
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true }));
+        return;
+    }
+
     res.writeHead(404);
     res.end("Not found");
 }
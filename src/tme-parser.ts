@@ -0,0 +1,219 @@
+/**
+ * t.me/s Parser - Turns web preview HTML into TelegramMessage objects
+ * Kept free of network code so it can be tested against saved pages
+ * (see tests/fixtures/tme)
+ */
+
+import * as cheerio from "cheerio";
+import { htmlToTelegram, stripHtml } from "./formatter";
+import type { TelegramMessage } from "./types";
+
+/**
+ * Parse the messages out of a t.me/s page (newest first)
+ */
+export function parseChannelPage(html: string, channelUsername: string): TelegramMessage[] {
+    const $ = cheerio.load(html);
+
+    const messages: TelegramMessage[] = [];
+
+    // Each message is in a .tgme_widget_message_wrap
+    $(".tgme_widget_message_wrap").each((_, element) => {
+        try {
+            const $msg = $(element);
+            const $bubble = $msg.find(".tgme_widget_message");
+
+            // Get message ID from data attribute
+            const dataPost = $bubble.attr("data-post") || "";
+            const id = dataPost.split("/").pop() || "";
+
+            if (!id) return;
+
+            // Service messages ("Channel created", "Channel photo updated") aren't content
+            if ($bubble.hasClass("service_message")) return;
+
+            // Get text content
+            const $text = $bubble.find(".tgme_widget_message_text");
+            const html = htmlToTelegram($text.html() || "");
+            const text = stripHtml(html).trim(); // Keeps <br> line breaks, unlike .text()
+
+            // Get date
+            const $date = $bubble.find(".tgme_widget_message_date time");
+            const date = $date.attr("datetime") || "";
+
+            // Get images
+            const images: string[] = [];
+            $bubble.find(".tgme_widget_message_photo_wrap").each((_, img) => {
+                const style = $(img).attr("style") || "";
+                const match = style.match(/url\(['"]?(.*?)['"]?\)/);
+                if (match && match[1]) {
+                    images.push(match[1]);
+                }
+            });
+
+            // Get videos with duration, size and thumbnail from the player
+            const videos: string[] = [];
+            const videoInfo: NonNullable<TelegramMessage["videoInfo"]> = [];
+            $bubble.find("video").each((_, vid) => {
+                const src = $(vid).attr("src");
+                if (!src) return;
+                videos.push(src);
+
+                const $player = $(vid).closest(".tgme_widget_message_video_player, .grouped_media_wrap");
+                const wrapStyle = $player.find(".tgme_widget_message_video_wrap").attr("style") || "";
+                const width = parseInt(wrapStyle.match(/width:\s*(\d+)px/)?.[1] || "");
+                const ratio = parseFloat(wrapStyle.match(/padding-top:\s*([\d.]+)%/)?.[1] || "");
+                const thumbStyle = $player.find(".tgme_widget_message_video_thumb").attr("style") || "";
+
+                videoInfo.push({
+                    url: src,
+                    duration: parseDuration($player.find(".message_video_duration").first().text().trim()),
+                    width: width || undefined,
+                    height: width && ratio ? Math.round((width * ratio) / 100) : undefined,
+                    thumbnail: thumbStyle.match(/url\(['"]?(.*?)['"]?\)/)?.[1],
+                });
+            });
+
+            // Get links
+            const links: string[] = [];
+            $text.find("a").each((_, link) => {
+                const href = $(link).attr("href");
+                if (href && !href.startsWith("tg://")) {
+                    links.push(href);
+                }
+            });
+
+            // Get documents (PDFs, files)
+            const documents: { url: string; title: string; size?: string }[] = [];
+            $bubble.find(".tgme_widget_message_document_wrap").each((_, doc) => {
+                const $doc = $(doc);
+                const url = $doc.attr("href") || "";
+                const title = $doc.find(".tgme_widget_message_document_title").text().trim() || "document";
+                const size = $doc.find(".tgme_widget_message_document_extra").text().trim();
+                if (url) {
+                    documents.push({ url, title, size });
+                }
+            });
+
+            // Forwarded from
+            let forwardedFrom: TelegramMessage["forwardedFrom"];
+            const $fwd = $bubble.find(".tgme_widget_message_forwarded_from_name");
+            if ($fwd.length) {
+                const fwdUrl = $fwd.attr("href");
+                forwardedFrom = {
+                    name: $fwd.text().trim(),
+                    username: fwdUrl?.match(/t\.me\/([^/?]+)/)?.[1],
+                    url: fwdUrl,
+                };
+            }
+
+            // Reply to
+            const replyHref = $bubble.find("a.tgme_widget_message_reply").attr("href") || "";
+            const replyToId = replyHref.match(/\/(\d+)(?:\?|$)/)?.[1];
+
+            // Native poll
+            let poll: TelegramMessage["poll"];
+            const $poll = $bubble.find(".tgme_widget_message_poll");
+            if ($poll.length) {
+                const pollType = $poll.find(".tgme_widget_message_poll_type").text().toLowerCase();
+                poll = {
+                    question: $poll.find(".tgme_widget_message_poll_question").text().trim(),
+                    options: $poll.find(".tgme_widget_message_poll_option_text").map((_, o) => $(o).text().trim()).get(),
+                    quiz: pollType.includes("quiz"),
+                    multipleChoice: false,
+                };
+            }
+
+            // Link preview card
+            let linkPreview: TelegramMessage["linkPreview"];
+            const $preview = $bubble.find("a.tgme_widget_message_link_preview");
+            if ($preview.length) {
+                const imageStyle = $preview.find(".link_preview_image, .link_preview_right_image").attr("style") || "";
+                linkPreview = {
+                    url: $preview.attr("href") || "",
+                    siteName: $preview.find(".link_preview_site_name").text().trim() || undefined,
+                    title: $preview.find(".link_preview_title").text().trim() || undefined,
+                    description: $preview.find(".link_preview_description").text().trim() || undefined,
+                    image: imageStyle.match(/url\(['"]?(.*?)['"]?\)/)?.[1],
+                };
+            }
+
+            // Voice notes (music is only shown as a document card without a file URL)
+            const audio: NonNullable<TelegramMessage["audio"]> = [];
+            $bubble.find("audio.tgme_widget_message_voice").each((_, el) => {
+                const src = $(el).attr("src");
+                if (!src) return;
+                const duration = $bubble.find(".tgme_widget_message_voice_duration").first().text().trim();
+                audio.push({ url: src, duration: parseDuration(duration), voice: true });
+            });
+
+            // Sticker
+            let sticker: TelegramMessage["sticker"];
+            const $sticker = $bubble.find(".tgme_widget_message_sticker");
+            if ($sticker.length) {
+                const stickerStyle = $sticker.attr("style") || "";
+                sticker = {
+                    url: $sticker.attr("data-webp") || stickerStyle.match(/url\(['"]?(.*?)['"]?\)/)?.[1],
+                };
+            }
+
+            const viewsText = $bubble.find(".tgme_widget_message_views").first().text().trim();
+
+            // Albums are rendered as one bubble; each item links to its own message ID
+            const albumIds: string[] = [];
+            $bubble.find(".tgme_widget_message_grouped_wrap .grouped_media_wrap").each((_, item) => {
+                const itemId = ($(item).attr("href") || "").match(/\/(\d+)(?:\?|$)/)?.[1];
+                if (itemId && !albumIds.includes(itemId)) albumIds.push(itemId);
+            });
+            albumIds.sort((a, b) => parseInt(a) - parseInt(b));
+            const isGrouped = albumIds.length > 1;
+
+            messages.push({
+                // Use the highest item ID so the whole album counts as processed
+                id: isGrouped ? String(Math.max(parseInt(id), ...albumIds.map(Number))) : id,
+                text,
+                html,
+                date,
+                images,
+                videos,
+                videoInfo: videoInfo.length > 0 ? videoInfo : undefined,
+                documents,
+                links,
+                channel: channelUsername,
+                groupedId: isGrouped ? `${channelUsername}:${albumIds[0]}` : null,
+                albumIds: isGrouped ? albumIds : undefined,
+                forwardedFrom,
+                replyToId,
+                poll,
+                linkPreview,
+                views: viewsText ? parseViews(viewsText) : undefined,
+                audio: audio.length > 0 ? audio : undefined,
+                sticker,
+            });
+        } catch (err) {
+            console.error("[Scraper] Error parsing message:", err);
+        }
+    });
+
+    // Sort by ID (newest first)
+    messages.sort((a, b) => parseInt(b.id) - parseInt(a.id));
+
+    return messages;
+}
+
+/**
+ * Parse view counts like "1.2K" / "3M"
+ */
+function parseViews(text: string): number {
+    const match = text.match(/([\d.]+)\s*([KM]?)/i);
+    if (!match?.[1]) return 0;
+    const multiplier = match[2]?.toUpperCase() === "M" ? 1_000_000 : match[2]?.toUpperCase() === "K" ? 1_000 : 1;
+    return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+/**
+ * Parse durations like "0:45" / "1:02:03" into seconds
+ */
+function parseDuration(text: string): number | undefined {
+    if (!text) return undefined;
+    return text.split(":").reduce((total, part) => total * 60 + (parseInt(part) || 0), 0);
+}
@@ -5,10 +5,58 @@ export interface TelegramMessage {
   date: string;
   images: string[];
   videos: string[];
+  videoInfo?: VideoInfo[]; // Details for entries in videos (matched by url)
   documents: { url: string; title: string; size?: string; suggestedFilename?: string }[]; // PDFs, files
   links: string[];
   channel: string;
   groupedId?: string | null; // For grouped messages (albums)
+  albumIds?: string[]; // Source message IDs merged into this album
+  forwardedFrom?: ForwardInfo;
+  replyToId?: string; // Source message ID this one replies to
+  poll?: PollInfo;
+  linkPreview?: LinkPreview;
+  views?: number;
+  audio?: AudioInfo[]; // Music and voice notes
+  sticker?: { emoji?: string; url?: string };
+  sourceUrl?: string; // Link to the original item (RSS sources)
+}
+
+export interface ForwardInfo {
+  name: string;
+  username?: string;
+  url?: string; // Link to the original post when known
+}
+
+export interface PollInfo {
+  question: string;
+  options: string[];
+  quiz: boolean;
+  multipleChoice: boolean;
+}
+
+export interface LinkPreview {
+  url: string;
+  siteName?: string;
+  title?: string;
+  description?: string;
+  image?: string;
+}
+
+export interface VideoInfo {
+  url: string;
+  duration?: number; // seconds
+  width?: number;
+  height?: number;
+  thumbnail?: string; // URL or local path
+  size?: number; // bytes, when known before downloading
+}
+
+export interface AudioInfo {
+  url: string;
+  title?: string;
+  performer?: string;
+  duration?: number; // seconds
+  voice: boolean;
 }
 
 export interface ScrapedChannel {
@@ -0,0 +1,208 @@
+/**
+ * Web Watcher - Selector-based scraping of notice boards (RPSC, RSMSSB...)
+ * Each table row / list item becomes a TelegramMessage; linked PDFs are
+ * downloaded into the media dir and attached as documents
+ */
+
+import * as cheerio from "cheerio";
+import { writeFileSync } from "fs";
+import { config } from "./config";
+import { escapeHtml } from "./formatter";
+import { mediaPath, formatSize } from "./media-store";
+import { getValue, setValue, isStorageConfigured } from "./data/storage";
+import { hashSource } from "./data/post-map";
+import { fetchText, fetchBuffer, resolveUrl, fileNameOf } from "./http-client";
+import type { TelegramMessage } from "./types";
+
+/**
+ * Selectors for a watched page (relative to each row)
+ */
+export interface WebSourceConfig {
+    rowSelector: string;     // e.g. "table.notices tr"
+    titleSelector?: string;  // Defaults to the row text
+    linkSelector?: string;   // Defaults to the first <a href>
+    dateSelector?: string;
+}
+
+interface WebRow {
+    key: string;
+    title: string;
+    date?: string;
+    links: string[];
+}
+
+const MAX_SEEN_PER_SOURCE = 500;
+const MAX_NEW_ROWS = 10; // Per fetch, so a layout change can't flood the channel
+
+// source -> row keys we've already handled
+let seenCache: Record<string, string[]> = {};
+
+/**
+ * Load seen rows from Supabase (call on startup)
+ */
+export async function loadWebSeen(): Promise<void> {
+    if (isStorageConfigured()) {
+        seenCache = await getValue<Record<string, string[]>>("web_seen", {});
+        console.log("[Web] Loaded seen rows for", Object.keys(seenCache).length, "sources");
+    }
+}
+
+/**
+ * Check a page and selectors before adding the source
+ */
+export async function validateWebSource(
+    url: string,
+    selectors: WebSourceConfig
+): Promise<{ valid: boolean; reason?: string }> {
+    try {
+        const rows = parseRows(await fetchPage(url), url, selectors);
+        return rows.length > 0
+            ? { valid: true }
+            : { valid: false, reason: `No rows match "${selectors.rowSelector}"` };
+    } catch (err: any) {
+        return { valid: false, reason: err.message };
+    }
+}
+
+/**
+ * Fetch a watched page and return rows we haven't seen yet (newest first)
+ * On the first fetch everything except the top row is marked as seen
+ */
+export async function fetchWebSource(
+    name: string,
+    url: string,
+    selectors: WebSourceConfig
+): Promise<TelegramMessage[]> {
+    console.log(`[Web] Fetching ${url}`);
+
+    const rows = parseRows(await fetchPage(url), url, selectors);
+    const seen = seenCache[name];
+
+    if (!seen) {
+        await markSeen(name, rows.slice(1).map((r) => r.key));
+        return Promise.all(rows.slice(0, 1).map((row) => toMessage(name, row)));
+    }
+
+    const fresh = rows.filter((r) => !seen.includes(r.key)).slice(0, MAX_NEW_ROWS);
+    if (fresh.length > 0) {
+        console.log(`[Web] ${fresh.length} new row(s) on ${name}`);
+    }
+
+    const messages: TelegramMessage[] = [];
+    for (const row of fresh) {
+        messages.push(await toMessage(name, row));
+    }
+    return messages;
+}
+
+/**
+ * Remember that a row was handled (posted or skipped)
+ */
+export async function markRowSeen(name: string, rowKey: string): Promise<void> {
+    await markSeen(name, [rowKey]);
+}
+
+async function markSeen(name: string, keys: string[]): Promise<void> {
+    const seen = seenCache[name] || [];
+    for (const key of keys) {
+        if (!seen.includes(key)) seen.push(key);
+    }
+    seenCache[name] = seen.slice(-MAX_SEEN_PER_SOURCE);
+
+    if (isStorageConfigured()) {
+        await setValue("web_seen", seenCache);
+    }
+}
+
+async function fetchPage(url: string): Promise<string> {
+    return (await fetchText(url, { conditional: true })).text;
+}
+
+/**
+ * Extract rows using the configured selectors
+ * Row key = title + first link, so reordering the table doesn't repost
+ */
+function parseRows(html: string, pageUrl: string, selectors: WebSourceConfig): WebRow[] {
+    const $ = cheerio.load(html);
+    const rows: WebRow[] = [];
+
+    $(selectors.rowSelector).each((_, el) => {
+        const $row = $(el);
+
+        const $title = selectors.titleSelector ? $row.find(selectors.titleSelector) : $row;
+        const title = $title.first().text().replace(/\s+/g, " ").trim();
+
+        const $links = selectors.linkSelector ? $row.find(selectors.linkSelector) : $row.find("a[href]");
+        const links = $links
+            .toArray()
+            .map((a) => resolveUrl($(a).attr("href") || "", pageUrl))
+            .filter(Boolean);
+
+        const date = selectors.dateSelector
+            ? $row.find(selectors.dateSelector).first().text().trim() || undefined
+            : undefined;
+
+        // Header rows and spacers have neither
+        if (!title && links.length === 0) return;
+
+        rows.push({ key: hashSource(`${title}|${links[0] || ""}`), title, date, links });
+    });
+
+    return rows;
+}
+
+/**
+ * Build a message for a row, downloading linked PDFs
+ */
+async function toMessage(name: string, row: WebRow): Promise<TelegramMessage> {
+    const documents: TelegramMessage["documents"] = [];
+    const links: string[] = [];
+
+    for (const link of row.links) {
+        const doc = /\.pdf($|\?)/i.test(link) ? await downloadPdf(link, row.key) : null;
+        if (doc) {
+            documents.push(doc);
+        } else {
+            links.push(link);
+        }
+    }
+
+    let html = `<b>${escapeHtml(row.title)}</b>`;
+    if (row.date) html += `\n📅 ${escapeHtml(row.date)}`;
+    for (const link of links) html += `\n${escapeHtml(link)}`;
+
+    return {
+        id: row.key,
+        text: [row.title, row.date ? `📅 ${row.date}` : "", ...links].filter(Boolean).join("\n"),
+        html,
+        date: new Date().toISOString(),
+        images: [],
+        videos: [],
+        documents,
+        links,
+        channel: name,
+        sourceUrl: links[0] || row.links[0],
+    };
+}
+
+/**
+ * Download a linked PDF into the media dir (respecting the size cap)
+ */
+async function downloadPdf(url: string, rowKey: string): Promise<TelegramMessage["documents"][number] | null> {
+    try {
+        const buffer = await fetchBuffer(url, { maxBytes: config.maxDownloadMb * 1024 * 1024 });
+        if (!buffer) {
+            console.log(`[Web] Skipping ${url} - missing or over ${config.maxDownloadMb} MB download limit`);
+            return null;
+        }
+
+        const title = fileNameOf(url, "document.pdf");
+        const filepath = mediaPath(`${rowKey}_${title}`);
+        writeFileSync(filepath, buffer);
+
+        return { url: filepath, title, size: formatSize(buffer.length) };
+    } catch (err: any) {
+        console.error(`[Web] Failed to download ${url}:`, err.message);
+        return null;
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * Caption layout for long posts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { layoutCaption, splitHtml, visibleLength, CAPTION_LIMIT, TEXT_LIMIT } from "../src/caption-layout";
+
+describe("caption layout", () => {
+    test("markup doesn't count against the limit", () => {
+        const html = `<b>${"a".repeat(1000)}</b> <a href="https://rpsc.rajasthan.gov.in/${"x".repeat(200)}">link</a>`;
+        expect(visibleLength(html)).toBe(1005);
+        expect(layoutCaption(html)).toEqual({ caption: html, replies: [] });
+    });
+
+    test("long captions become a teaser plus the full text in replies", () => {
+        const paragraph = "<b>RPSC</b> notice: " + "exam schedule update ".repeat(20).trim();
+        const html = Array(12).fill(paragraph).join("\n\n");
+        const { caption, replies } = layoutCaption(html);
+
+        expect(visibleLength(caption)).toBeLessThan(CAPTION_LIMIT);
+        expect(caption).toContain("Full text below");
+        expect(replies.length).toBeGreaterThan(1);
+        expect(replies.every((r) => visibleLength(r) <= TEXT_LIMIT)).toBe(true);
+        expect(replies.join("\n\n")).toBe(html);
+    });
+
+    test("over-long lines are cut at spaces", () => {
+        const chunks = splitHtml("<i>" + "word ".repeat(100) + "</i>", 50);
+        expect(chunks.every((c) => c.length <= 50 && !c.startsWith(" ") && !c.endsWith(" "))).toBe(true);
+        expect(chunks.join(" ")).toBe("word ".repeat(100).trim());
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Channel list import/export parsing
+ */
+
+import { describe, expect, test } from "bun:test";
+import { parseImport, importChannels } from "../src/channel-io";
+import { getChannel } from "../src/data/channels";
+
+describe("channel import", () => {
+    test("CSV rows keep settings and quoted selectors", () => {
+        const csv =
+            "username,type,url,followDeletes,intervalMinutes,priority,account,rowSelector,titleSelector,linkSelector,dateSelector\r\n" +
+            "reetupdates,public,,true,10,2,,,,,\r\n" +
+            'rpsc-notices,web,https://rpsc.rajasthan.gov.in/news,,,,,"table tr, ul li",td:nth-child(2),"a[href$="".pdf""]",\r\n' +
+            "private_chan,mtproto,,,,-1,backup,,,,\r\n";
+
+        expect(parseImport(csv, "csv")).toEqual([
+            {
+                username: "reetupdates",
+                type: "public",
+                url: undefined,
+                followDeletes: true,
+                intervalMinutes: 10,
+                priority: 2,
+                account: undefined,
+                web: undefined,
+            },
+            {
+                username: "rpsc-notices",
+                type: "web",
+                url: "https://rpsc.rajasthan.gov.in/news",
+                followDeletes: undefined,
+                intervalMinutes: undefined,
+                priority: undefined,
+                account: undefined,
+                web: {
+                    rowSelector: "table tr, ul li",
+                    titleSelector: "td:nth-child(2)",
+                    linkSelector: 'a[href$=".pdf"]',
+                    dateSelector: undefined,
+                },
+            },
+            {
+                username: "private_chan",
+                type: "mtproto",
+                url: undefined,
+                followDeletes: undefined,
+                intervalMinutes: undefined,
+                priority: -1,
+                account: "backup",
+                web: undefined,
+            },
+        ]);
+    });
+
+    test("CSV columns can be in any order, type defaults to public", () => {
+        expect(parseImport("priority,username\n5,@examnews\n", "csv")[0]).toMatchObject({
+            username: "@examnews",
+            type: "public",
+            priority: 5,
+        });
+    });
+
+    test("CSV tags are split on semicolons", () => {
+        expect(parseImport("username,tags,group\nexamnews,jobs; results;,rajasthan\nother,,\n", "csv")).toMatchObject([
+            { username: "examnews", tags: ["jobs", "results"], group: "rajasthan" },
+            { username: "other", tags: undefined, group: undefined },
+        ]);
+    });
+
+    test("malformed input is rejected", () => {
+        expect(() => parseImport("channel\nfoo\n", "csv")).toThrow("username");
+        expect(() => parseImport('{"username":"x"}', "json")).toThrow("array");
+        expect(() => parseImport("[{", "json")).toThrow();
+    });
+
+    test("rows with malformed settings aren't added at all", async () => {
+        const entries = JSON.parse('[{"username":"badtags","type":"mtproto","tags":{"a":1}},{"username":"badprio","type":"mtproto","priority":"high"}]');
+        const results = await importChannels(entries);
+
+        expect(results.map((r) => r.status)).toEqual(["invalid", "invalid"]);
+        expect(getChannel("badtags")).toBeUndefined();
+        expect(getChannel("badprio")).toBeUndefined();
+    });
+});
@@ -0,0 +1,21 @@
+/**
+ * Outbox quiet hours
+ */
+
+import { describe, expect, test } from "bun:test";
+import { inQuietHours } from "../src/outbox";
+
+describe("quiet hours", () => {
+    test("windows can wrap past midnight and use the configured time zone", () => {
+        // 18:00 UTC = 23:30 IST
+        const lateEvening = new Date("2024-05-01T18:00:00Z");
+        expect(inQuietHours("23:00-07:00", lateEvening, "Asia/Kolkata")).toBe(true);
+        expect(inQuietHours("23:00-07:00", lateEvening, "UTC")).toBe(false);
+        expect(inQuietHours("13:00-14:30", new Date("2024-05-01T14:29:00Z"), "UTC")).toBe(true);
+        expect(inQuietHours("13:00-14:30", new Date("2024-05-01T14:30:00Z"), "UTC")).toBe(false);
+    });
+
+    test("a malformed window never blocks posting", () => {
+        expect(inQuietHours("nights", new Date(), "UTC")).toBe(false);
+    });
+});
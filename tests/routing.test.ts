@@ -0,0 +1,53 @@
+/**
+ * Routing rules -> target channels
+ */
+
+import { beforeAll, describe, expect, test } from "bun:test";
+import { addChannel, updateChannel } from "../src/data/channels";
+import { saveTarget, saveRule, resolveRoutes } from "../src/data/routing";
+import { config } from "../src/config";
+
+const targets = (routes: { chatId: string }[]) => routes.map((r) => r.chatId).sort();
+
+describe("routing", () => {
+    beforeAll(async () => {
+        await addChannel("rpscofficial", "public");
+        await updateChannel("rpscofficial", { tags: ["official"] });
+        await addChannel("gkdaily", "public");
+
+        await saveTarget({ name: "rpsc", chatId: "@rpsc_target", includeSource: false });
+        await saveTarget({ name: "ca", chatId: "@ca_target", profile: { silent: true, footer: "{source}" } });
+        await saveRule({ id: "r1", tags: ["official"], keywords: ["rpsc"], targets: ["rpsc"] });
+        await saveRule({ id: "r2", categories: ["current-affairs"], targets: ["ca"] });
+        await saveRule({ id: "r3", keywords: ["result"], categories: ["current-affairs"], targets: ["ca"], profile: { pinKeywords: ["result"] } });
+    });
+
+    test("rules need every criterion to match, targets keep their own settings", () => {
+        expect(resolveRoutes("rpscofficial", "RPSC APO result out", "other")).toEqual([
+            { chatId: "@rpsc_target", includeSource: false },
+        ]);
+        expect(targets(resolveRoutes("gkdaily", "RPSC APO result out", "other"))).toEqual([config.channelId]);
+    });
+
+    test("a post can go to several targets", () => {
+        expect(targets(resolveRoutes("rpscofficial", "RPSC GK special", "current-affairs"))).toEqual([
+            "@ca_target",
+            "@rpsc_target",
+        ]);
+    });
+
+    test("a rule's post options override its target's", () => {
+        expect(resolveRoutes("gkdaily", "Quiz result", "current-affairs")[0]?.profile).toEqual({
+            silent: true,
+            footer: "{source}",
+            pinKeywords: ["result"],
+        });
+        expect(resolveRoutes("gkdaily", "Daily GK", "current-affairs")[0]?.profile).toEqual({ silent: true, footer: "{source}" });
+    });
+
+    test("category rules count as possible before the AI has run, next to the default target", () => {
+        expect(targets(resolveRoutes("gkdaily", "Daily GK"))).toEqual(["@ca_target", config.channelId].sort());
+        expect(targets(resolveRoutes("rpscofficial", "RPSC GK special"))).toEqual(["@ca_target", "@rpsc_target"]);
+        expect(targets(resolveRoutes("gkdaily", "Daily GK", null))).toEqual([config.channelId]);
+    });
+});
@@ -0,0 +1,163 @@
+/**
+ * Parser tests against saved t.me/s pages (tests/fixtures/tme)
+ * If Telegram changes the web preview markup, refresh the fixture and
+ * these fail before a deploy silently returns 0 messages
+ */
+
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parseChannelPage } from "../src/tme-parser";
+
+function parseFixture(name: string) {
+    const html = readFileSync(join(import.meta.dir, "fixtures", "tme", `${name}.html`), "utf8");
+    return parseChannelPage(html, "reetupdates");
+}
+
+describe("t.me/s parser", () => {
+    test("text messages keep formatting, links, views and replies", () => {
+        const [reply, post] = parseFixture("text");
+
+        expect(post).toMatchObject({
+            id: "1041",
+            channel: "reetupdates",
+            date: "2026-10-10T08:15:02+00:00",
+            text: "REET Mains 2026 exam date announced\n\nExam on 12 January & admit cards from 5 January 📌\nDetails: rsmssb.rajasthan.gov.in",
+            html:
+                "<b>REET Mains 2026</b> exam date announced\n\nExam on <i>12 January</i> &amp; admit cards from 5 January 📌\n" +
+                'Details: <a href="https://rsmssb.rajasthan.gov.in/notice/123">rsmssb.rajasthan.gov.in</a>',
+            links: ["https://rsmssb.rajasthan.gov.in/notice/123"],
+            views: 12400,
+            groupedId: null,
+        });
+        expect(post!.replyToId).toBeUndefined();
+
+        expect(reply).toMatchObject({
+            id: "1042",
+            html: "Syllabus PDF coming soon <tg-spoiler>tomorrow</tg-spoiler>",
+            replyToId: "1041",
+            views: 987,
+        });
+    });
+
+    test("photos are read from the background image", () => {
+        const messages = parseFixture("photo");
+
+        expect(messages.map((m) => m.id)).toEqual(["2002", "2001"]);
+        expect(messages[1]).toMatchObject({
+            text: "Answer key for Paper 1 released",
+            html: "Answer key for Paper 1 <b>released</b>",
+            images: ["https://cdn4.cdn-telegram.org/file/AbCdEf123.jpg"],
+            views: 3100,
+        });
+        // Photo without caption
+        expect(messages[0]).toMatchObject({
+            text: "",
+            images: ["https://cdn4.cdn-telegram.org/file/GhIjKl456.jpg"],
+            views: 2_000_000,
+        });
+    });
+
+    test("albums become one message with every item ID", () => {
+        const messages = parseFixture("album");
+
+        expect(messages).toHaveLength(1);
+        expect(messages[0]).toMatchObject({
+            id: "3012", // Highest item ID, so the whole album counts as processed
+            groupedId: "reetupdates:3010",
+            albumIds: ["3010", "3011", "3012"],
+            text: "Merit list pages 1-3",
+            images: [
+                "https://cdn4.cdn-telegram.org/file/Album1.jpg",
+                "https://cdn4.cdn-telegram.org/file/Album2.jpg",
+                "https://cdn4.cdn-telegram.org/file/Album3.jpg",
+            ],
+        });
+    });
+
+    test("videos and voice notes", () => {
+        const [voice, video] = parseFixture("video");
+
+        expect(video).toMatchObject({
+            id: "4001",
+            text: "Lecture 12: Child Development",
+            videos: ["https://cdn4.cdn-telegram.org/file/Lecture12.mp4?token=abc"],
+            videoInfo: [
+                {
+                    url: "https://cdn4.cdn-telegram.org/file/Lecture12.mp4?token=abc",
+                    duration: 724,
+                    width: 720,
+                    height: 405,
+                    thumbnail: "https://cdn4.cdn-telegram.org/file/VideoThumb.jpg",
+                },
+            ],
+            images: [],
+        });
+        expect(voice).toMatchObject({
+            id: "4002",
+            audio: [{ url: "https://cdn4.cdn-telegram.org/file/Voice77.ogg", duration: 65, voice: true }],
+        });
+        expect(voice!.views).toBeUndefined();
+    });
+
+    test("documents and link previews", () => {
+        const [preview, doc] = parseFixture("document");
+
+        expect(doc).toMatchObject({
+            id: "5001",
+            text: "Official syllabus",
+            documents: [{ url: "https://t.me/reetupdates/5001", title: "REET_Syllabus_2026.pdf", size: "2.4 MB" }],
+        });
+        expect(preview).toMatchObject({
+            id: "5002",
+            links: ["https://rajeduboard.rajasthan.gov.in/"],
+            linkPreview: {
+                url: "https://rajeduboard.rajasthan.gov.in/",
+                siteName: "Board of Secondary Education",
+                title: "RBSE Results 2026",
+                description: "Check class 10 and 12 results online.",
+                image: "https://cdn4.cdn-telegram.org/file/Preview9.jpg",
+            },
+        });
+        expect(preview!.documents).toEqual([]);
+    });
+
+    test("quiz and regular polls", () => {
+        const [poll, quiz] = parseFixture("poll");
+
+        expect(quiz!.poll).toEqual({
+            question: "Who proposed the theory of multiple intelligences?",
+            options: ["Piaget", "Gardner", "Vygotsky"],
+            quiz: true,
+            multipleChoice: false,
+        });
+        expect(poll!.poll).toEqual({
+            question: "Which paper are you taking?",
+            options: ["Level 1", "Level 2"],
+            quiz: false,
+            multipleChoice: false,
+        });
+    });
+
+    test("forwards from channels and hidden users", () => {
+        const [hidden, channel] = parseFixture("forward");
+
+        expect(channel!.forwardedFrom).toEqual({
+            name: "RPSC Official",
+            username: "rpsc_official",
+            url: "https://t.me/rpsc_official/889",
+        });
+        expect(hidden!.forwardedFrom).toEqual({ name: "Hidden User", username: undefined, url: undefined });
+    });
+
+    test("service messages are skipped", () => {
+        const messages = parseFixture("service");
+
+        expect(messages.map((m) => m.id)).toEqual(["3"]);
+        expect(messages[0]!.text).toBe("Welcome to REET Updates");
+    });
+
+    test("pages without messages parse to an empty list", () => {
+        expect(parseChannelPage("<html><body>If you have <strong>Telegram</strong>...</body></html>", "x")).toEqual([]);
+    });
+});